@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { contrastRatio, contrastViolation, outlineAXTree, parseColor, requiredContrast, type AXNodeLike } from "./accessibility.js";
+
+function ax(nodeId: string, role: string, name: string, childIds: string[] = [], extra: Partial<AXNodeLike> = {}): AXNodeLike {
+  return { nodeId, ignored: false, role: { value: role }, name: { value: name }, childIds, ...extra };
+}
+
+describe("outlineAXTree", () => {
+  const nodes: AXNodeLike[] = [
+    ax("1", "RootWebArea", "Shop", ["2"]),
+    ax("2", "generic", "", ["3", "5", "7"], { parentId: "1" }),
+    ax("3", "button", "Add to cart", ["4"], {
+      parentId: "2",
+      properties: [{ name: "focusable", value: { value: true } }, { name: "disabled", value: { value: false } }],
+    }),
+    ax("4", "StaticText", "Add to cart", [], { parentId: "3" }),
+    ax("5", "heading", "Details", [], { parentId: "2", properties: [{ name: "level", value: { value: 2 } }] }),
+    ax("7", "textbox", "Quantity", [], { parentId: "2", ignored: true }),
+  ];
+
+  it("hoists generic and ignored nodes and skips repeated text", () => {
+    const outline = outlineAXTree(nodes, undefined, { interestingOnly: true, maxNodes: 100 });
+    expect(outline.tree).toBe([
+      '- RootWebArea "Shop"',
+      '  - button "Add to cart" [focusable]',
+      '  - heading "Details" [level=2]',
+    ].join("\n"));
+    expect(outline).toMatchObject({ node_count: 3, truncated: false });
+  });
+
+  it("keeps every node when interestingOnly is off", () => {
+    const outline = outlineAXTree(nodes, undefined, { interestingOnly: false, maxNodes: 100 });
+    expect(outline.node_count).toBe(6);
+  });
+
+  it("scopes to a subtree and enforces limits", () => {
+    expect(outlineAXTree(nodes, "3", { interestingOnly: true, maxNodes: 100 }).tree).toBe('- button "Add to cart" [focusable]');
+
+    const capped = outlineAXTree(nodes, undefined, { interestingOnly: true, maxNodes: 2 });
+    expect(capped).toMatchObject({ node_count: 2, truncated: true });
+
+    const shallow = outlineAXTree(nodes, undefined, { interestingOnly: true, maxNodes: 100, maxDepth: 0 });
+    expect(shallow).toMatchObject({ node_count: 1, truncated: true });
+  });
+});
+
+describe("contrast", () => {
+  it("parses computed colors", () => {
+    expect(parseColor("rgb(12, 34, 56)")).toEqual([12, 34, 56, 1]);
+    expect(parseColor("rgba(0, 0, 0, 0.5)")).toEqual([0, 0, 0, 0.5]);
+    expect(parseColor("color(srgb 1 0 0)")).toBeNull();
+  });
+
+  it("computes WCAG ratios", () => {
+    expect(contrastRatio([0, 0, 0, 1], [255, 255, 255, 1])).toBeCloseTo(21, 5);
+    expect(contrastRatio([119, 119, 119, 1], [255, 255, 255, 1])).toBeCloseTo(4.48, 2);
+  });
+
+  it("relaxes the requirement for large text", () => {
+    expect(requiredContrast(16, 400)).toBe(4.5);
+    expect(requiredContrast(24, 400)).toBe(3);
+    expect(requiredContrast(19, 700)).toBe(3);
+  });
+
+  it("flags low-contrast text and accounts for translucency", () => {
+    const sample = { element: "p", html: "<p>hi</p>", fontSize: 16, fontWeight: 400 };
+    expect(contrastViolation({ ...sample, color: "rgb(119, 119, 119)", background: "rgb(255, 255, 255)" })?.message)
+      .toMatch(/^Contrast 4\.48:1 is below 4\.5:1/);
+    expect(contrastViolation({ ...sample, color: "rgb(0, 0, 0)", background: "rgb(255, 255, 255)" })).toBeNull();
+    expect(contrastViolation({ ...sample, color: "rgba(0, 0, 0, 0.3)", background: "rgb(255, 255, 255)" })).not.toBeNull();
+    expect(contrastViolation({ ...sample, color: "rgb(200, 200, 200)", background: null })).toBeNull();
+  });
+});
@@ -0,0 +1,385 @@
+import type CDP from "chrome-remote-interface";
+
+// --- Types ---
+
+/** The parts of CDP's Accessibility.AXNode we read. */
+export interface AXNodeLike {
+  nodeId: string;
+  ignored: boolean;
+  role?: { value?: unknown };
+  name?: { value?: unknown };
+  value?: { value?: unknown };
+  properties?: Array<{ name: string; value: { value?: unknown } }>;
+  parentId?: string;
+  childIds?: string[];
+  backendDOMNodeId?: number;
+}
+
+export interface AXTreeOptions {
+  /** Keep only nodes with a meaningful role or name, hoisting the rest's children. */
+  interestingOnly: boolean;
+  maxDepth?: number;
+  maxNodes: number;
+}
+
+export interface AXTreeOutline {
+  /** One node per line, indented by depth: `role "name" [state…]`. */
+  tree: string;
+  node_count: number;
+  truncated: boolean;
+}
+
+export const AUDIT_RULES = [
+  "image-alt",
+  "label",
+  "button-name",
+  "link-name",
+  "duplicate-id",
+  "focus-unreachable",
+  "color-contrast",
+] as const;
+export type AuditRule = typeof AUDIT_RULES[number];
+
+export interface Violation {
+  rule: AuditRule;
+  severity: "error" | "warning";
+  /** A CSS selector for the element. */
+  element: string;
+  html: string;
+  message: string;
+}
+
+export interface AuditResult {
+  summary: Partial<Record<AuditRule, number>>;
+  violations: Violation[];
+  truncated: boolean;
+}
+
+/** A text sample gathered in the page for the contrast check. */
+interface ContrastSample {
+  element: string;
+  html: string;
+  color: string;
+  /** Effective background, or null when an image/gradient makes it unknowable. */
+  background: string | null;
+  fontSize: number;
+  fontWeight: number;
+}
+
+type Rgba = [number, number, number, number];
+
+// --- Config ---
+
+/** Roles that add nothing to the outline on their own. */
+const NOISE_ROLES = new Set(["generic", "none", "presentation", "InlineTextBox", "LineBreak"]);
+/** Boolean/token properties worth showing in the outline. */
+const STATE_PROPERTIES = ["focusable", "focused", "disabled", "checked", "pressed", "selected", "expanded", "required", "invalid", "level", "modal"];
+const MAX_VIOLATIONS_PER_RULE = 20;
+
+// --- Tree ---
+
+function text(value: { value?: unknown } | undefined): string {
+  return value?.value === undefined || value.value === null ? "" : String(value.value);
+}
+
+function states(node: AXNodeLike): string[] {
+  const out: string[] = [];
+  for (const prop of node.properties ?? []) {
+    if (!STATE_PROPERTIES.includes(prop.name)) continue;
+    const value = prop.value.value;
+    if (value === false || value === "false" || value === undefined) continue;
+    out.push(value === true || value === "true" ? prop.name : `${prop.name}=${value}`);
+  }
+  return out;
+}
+
+/**
+ * Render an AX tree as an indented outline. With `interestingOnly`, ignored
+ * and generic unnamed nodes are dropped and their children hoisted, and
+ * static text repeating its parent's name is skipped.
+ */
+export function outlineAXTree(nodes: AXNodeLike[], rootId: string | undefined, options: AXTreeOptions): AXTreeOutline {
+  const byId = new Map(nodes.map((n) => [n.nodeId, n]));
+  const root = rootId !== undefined ? byId.get(rootId) : nodes.find((n) => n.parentId === undefined);
+  const lines: string[] = [];
+  let truncated = false;
+
+  const visit = (node: AXNodeLike, depth: number, parentName: string): void => {
+    if (lines.length >= options.maxNodes) {
+      truncated = true;
+      return;
+    }
+
+    const role = text(node.role);
+    const name = text(node.name).replace(/\s+/g, " ").trim();
+    const skip = options.interestingOnly && (
+      node.ignored ||
+      (NOISE_ROLES.has(role) && !name) ||
+      (role === "StaticText" && name === parentName)
+    );
+
+    let childDepth = depth;
+    if (!skip) {
+      if (options.maxDepth !== undefined && depth > options.maxDepth) {
+        truncated = true;
+        return;
+      }
+      const value = text(node.value);
+      const parts = [role || "unknown"];
+      if (name) parts.push(JSON.stringify(name.length > 80 ? `${name.slice(0, 80)}…` : name));
+      if (value && value !== name) parts.push(`value=${JSON.stringify(value.slice(0, 80))}`);
+      const flags = states(node);
+      if (flags.length > 0) parts.push(`[${flags.join(", ")}]`);
+      lines.push(`${"  ".repeat(depth)}- ${parts.join(" ")}`);
+      childDepth = depth + 1;
+    }
+
+    for (const childId of node.childIds ?? []) {
+      const child = byId.get(childId);
+      if (child) visit(child, childDepth, skip ? parentName : name);
+    }
+  };
+
+  if (root) visit(root, 0, "");
+  return { tree: lines.join("\n"), node_count: lines.length, truncated };
+}
+
+/** Fetch the page's AX tree, optionally scoped to the first element matching `selector`. */
+export async function getAXTree(client: CDP.Client, selector: string | undefined, options: AXTreeOptions): Promise<AXTreeOutline> {
+  await client.Accessibility.enable();
+  const { nodes } = await client.Accessibility.getFullAXTree({});
+
+  let rootId: string | undefined;
+  if (selector !== undefined) {
+    const doc = await client.DOM.getDocument({ depth: 0 });
+    const { nodeId } = await client.DOM.querySelector({ nodeId: doc.root.nodeId, selector });
+    if (!nodeId) {
+      throw new Error(`No element matched selector: "${selector}"`);
+    }
+    const { node } = await client.DOM.describeNode({ nodeId });
+    rootId = (nodes as AXNodeLike[]).find((n) => n.backendDOMNodeId === node.backendNodeId)?.nodeId;
+    if (rootId === undefined) {
+      throw new Error(`Element "${selector}" is not in the accessibility tree`);
+    }
+  }
+
+  return outlineAXTree(nodes as AXNodeLike[], rootId, options);
+}
+
+// --- Contrast ---
+
+/** Parse the rgb()/rgba() strings getComputedStyle returns. */
+export function parseColor(color: string): Rgba | null {
+  const match = color.match(/^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/);
+  if (!match) return null;
+  let alpha = match[4] === undefined ? 1 : parseFloat(match[4]);
+  if (match[4]?.endsWith("%")) alpha /= 100;
+  return [Number(match[1]), Number(match[2]), Number(match[3]), alpha];
+}
+
+/** Composite a translucent foreground over an opaque background. */
+export function blend(fg: Rgba, bg: Rgba): Rgba {
+  const a = fg[3];
+  return [fg[0] * a + bg[0] * (1 - a), fg[1] * a + bg[1] * (1 - a), fg[2] * a + bg[2] * (1 - a), 1];
+}
+
+function luminance([r, g, b]: Rgba): number {
+  const channel = (c: number) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/** WCAG 2 contrast ratio, 1 to 21. */
+export function contrastRatio(a: Rgba, b: Rgba): number {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+/** WCAG AA: 3:1 for large text (24px, or 18.66px bold), 4.5:1 otherwise. */
+export function requiredContrast(fontSize: number, fontWeight: number): number {
+  return fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700) ? 3 : 4.5;
+}
+
+export function contrastViolation(sample: ContrastSample): Violation | null {
+  const fg = parseColor(sample.color);
+  const parsed = sample.background !== null ? parseColor(sample.background) : null;
+  if (!fg || !parsed) return null;
+
+  // A translucent background is assumed to sit on white
+  const bg = parsed[3] < 1 ? blend(parsed, [255, 255, 255, 1]) : parsed;
+
+  const ratio = contrastRatio(blend(fg, bg), bg);
+  const required = requiredContrast(sample.fontSize, sample.fontWeight);
+  if (ratio >= required) return null;
+  return {
+    rule: "color-contrast",
+    severity: "error",
+    element: sample.element,
+    html: sample.html,
+    message: `Contrast ${ratio.toFixed(2)}:1 is below ${required}:1 (${sample.color} on ${sample.background}, ${sample.fontSize}px)`,
+  };
+}
+
+// --- Audit ---
+
+/**
+ * Runs in the page. Structural checks produce violations directly; text
+ * elements are returned as samples so contrast math happens on our side.
+ */
+const AUDIT_SCRIPT = `(function(root) {
+  const violations = [];
+  const samples = [];
+
+  const selectorFor = (el) => {
+    if (el.id && document.querySelectorAll("#" + CSS.escape(el.id)).length === 1) return "#" + CSS.escape(el.id);
+    const parts = [];
+    for (let node = el; node && node.nodeType === 1 && parts.length < 5; node = node.parentElement) {
+      if (node.id && document.querySelectorAll("#" + CSS.escape(node.id)).length === 1) { parts.unshift("#" + CSS.escape(node.id)); break; }
+      let part = node.tagName.toLowerCase();
+      const parent = node.parentElement;
+      if (parent) {
+        const same = Array.from(parent.children).filter((c) => c.tagName === node.tagName);
+        if (same.length > 1) part += ":nth-of-type(" + (same.indexOf(node) + 1) + ")";
+      }
+      parts.unshift(part);
+    }
+    return parts.join(" > ");
+  };
+  const snippet = (el) => el.outerHTML.replace(/\\s+/g, " ").slice(0, 120);
+  const report = (rule, severity, el, message) => violations.push({ rule, severity, element: selectorFor(el), html: snippet(el), message });
+
+  const visible = (el) => {
+    const style = getComputedStyle(el);
+    const rect = el.getBoundingClientRect();
+    return style.display !== "none" && style.visibility !== "hidden" && rect.width > 0 && rect.height > 0;
+  };
+  const labelledBy = (el) => (el.getAttribute("aria-labelledby") || "").split(/\\s+/).filter(Boolean)
+    .map((id) => document.getElementById(id)?.textContent || "").join(" ").trim();
+  const ownName = (el) => (el.getAttribute("aria-label") || "").trim() || labelledBy(el) || (el.getAttribute("title") || "").trim();
+
+  // Images
+  for (const img of root.querySelectorAll("img, input[type=image], [role=img]")) {
+    const role = img.getAttribute("role");
+    if (role === "presentation" || role === "none" || img.getAttribute("aria-hidden") === "true") continue;
+    if (img.tagName === "IMG" && img.hasAttribute("alt")) continue;
+    if (img.tagName === "INPUT" && (img.getAttribute("alt") || "").trim()) continue;
+    if (ownName(img)) continue;
+    report("image-alt", "error", img, "Image has no alt text (use alt=\\"\\" if decorative)");
+  }
+
+  // Form controls
+  const controls = root.querySelectorAll("input:not([type=hidden]):not([type=submit]):not([type=button]):not([type=reset]):not([type=image]), select, textarea");
+  for (const control of controls) {
+    if (!visible(control)) continue;
+    const labelled = ownName(control) || (control.labels && Array.from(control.labels).some((l) => l.textContent.trim()));
+    if (labelled) continue;
+    const hint = control.getAttribute("placeholder") ? " (placeholder is not a label)" : "";
+    report("label", "error", control, "Form control has no accessible label" + hint);
+  }
+
+  // Buttons and links
+  for (const el of root.querySelectorAll("button, [role=button], input[type=submit], input[type=button], input[type=reset]")) {
+    if (!visible(el)) continue;
+    const name = ownName(el) || (el.innerText || "").trim() || (el.tagName === "INPUT" ? (el.value || (el.type === "submit" || el.type === "reset" ? el.type : "")) : "")
+      || Array.from(el.querySelectorAll("img[alt]")).map((i) => i.alt).join(" ").trim();
+    if (!name) report("button-name", "error", el, "Button has no accessible name");
+  }
+  for (const el of root.querySelectorAll("a[href], [role=link]")) {
+    if (!visible(el)) continue;
+    const name = ownName(el) || (el.innerText || "").trim() || Array.from(el.querySelectorAll("img[alt]")).map((i) => i.alt).join(" ").trim();
+    if (!name) report("link-name", "error", el, "Link has no accessible name");
+  }
+
+  // Duplicate ids (page-wide, since ids are)
+  const ids = new Map();
+  for (const el of document.querySelectorAll("[id]")) {
+    if (!el.id) continue;
+    ids.set(el.id, (ids.get(el.id) || []).concat(el));
+  }
+  for (const [id, els] of ids) {
+    if (els.length > 1 && (root === document || els.some((el) => root.contains(el)))) {
+      report("duplicate-id", "error", els[1], "id \\"" + id + "\\" is used by " + els.length + " elements");
+    }
+  }
+
+  // Keyboard reachability
+  const interactiveRoles = new Set(["button", "link", "checkbox", "radio", "switch", "tab", "menuitem", "option", "slider", "textbox", "combobox"]);
+  const nativeFocusable = (el) => el.matches("a[href], button, input, select, textarea, summary, [contenteditable=''], [contenteditable=true]");
+  for (const el of root.querySelectorAll("*")) {
+    if (!visible(el)) continue;
+    const role = el.getAttribute("role");
+    const tabindex = el.getAttribute("tabindex");
+    if (role && interactiveRoles.has(role) && !nativeFocusable(el) && tabindex === null) {
+      report("focus-unreachable", "error", el, "Element with role=\\"" + role + "\\" is not focusable (add tabindex=\\"0\\")");
+    } else if (nativeFocusable(el) && !el.disabled && tabindex !== null && Number(tabindex) < 0) {
+      report("focus-unreachable", "warning", el, "Interactive element is removed from the tab order (tabindex=" + tabindex + ")");
+    } else if ((nativeFocusable(el) || (tabindex !== null && Number(tabindex) >= 0)) && el.closest("[aria-hidden=true]")) {
+      report("focus-unreachable", "error", el, "Focusable element is inside aria-hidden=\\"true\\" — keyboard users reach it but screen readers can't");
+    }
+  }
+
+  // Text samples for contrast
+  const effectiveBackground = (el) => {
+    for (let node = el; node && node.nodeType === 1; node = node.parentElement) {
+      const style = getComputedStyle(node);
+      if (style.backgroundImage && style.backgroundImage !== "none") return null;
+      const bg = style.backgroundColor;
+      if (bg && bg !== "transparent" && !/rgba\\([^)]*,\\s*0\\)$/.test(bg)) return bg;
+    }
+    return "rgb(255, 255, 255)";
+  };
+  for (const el of root.querySelectorAll("*")) {
+    const hasText = Array.from(el.childNodes).some((n) => n.nodeType === 3 && n.textContent.trim());
+    if (!hasText || !visible(el)) continue;
+    const style = getComputedStyle(el);
+    samples.push({
+      element: selectorFor(el),
+      html: snippet(el),
+      color: style.color,
+      background: effectiveBackground(el),
+      fontSize: parseFloat(style.fontSize),
+      fontWeight: Number(style.fontWeight) || 400,
+    });
+  }
+
+  return { violations, samples };
+})`;
+
+export async function auditAccessibility(
+  client: CDP.Client,
+  selector: string | undefined,
+  rules: AuditRule[] = [...AUDIT_RULES],
+): Promise<AuditResult> {
+  const rootExpr = selector !== undefined ? `document.querySelector(${JSON.stringify(selector)})` : "document";
+  const result = await client.Runtime.evaluate({
+    expression: `(() => { const root = ${rootExpr}; return root ? ${AUDIT_SCRIPT}(root) : null; })()`,
+    returnByValue: true,
+  });
+  if (result.exceptionDetails) {
+    throw new Error(`Audit failed: ${result.exceptionDetails.exception?.description ?? result.exceptionDetails.text}`);
+  }
+  const raw = result.result.value as { violations: Violation[]; samples: ContrastSample[] } | null;
+  if (!raw) {
+    throw new Error(`No element matched selector: "${selector}"`);
+  }
+
+  const all = [
+    ...raw.violations,
+    ...raw.samples.map(contrastViolation).filter((v): v is Violation => v !== null),
+  ].filter((v) => rules.includes(v.rule));
+
+  const summary: Partial<Record<AuditRule, number>> = {};
+  const violations: Violation[] = [];
+  let truncated = false;
+  for (const v of all) {
+    summary[v.rule] = (summary[v.rule] ?? 0) + 1;
+    if (summary[v.rule]! <= MAX_VIOLATIONS_PER_RULE) {
+      violations.push(v);
+    } else {
+      truncated = true;
+    }
+  }
+  return { summary, violations, truncated };
+}
@@ -5,13 +5,44 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import treeKill from "tree-kill";
 import { launchChrome, isAutoLaunchEnabled } from "./chrome-launcher.js";
+import { SourceMapResolver } from "./source-maps.js";
 
 // --- Types ---
 
+/** A JS stack frame with 1-based line/column (CDP reports 0-based). */
+export interface StackFrame {
+  function_name: string;
+  url: string;
+  line: number;
+  column: number;
+}
+
 export interface ConsoleEntry {
   timestamp: string;
+  /** Console API type (log, warning, error…), browser log level, "exception" or "relay". */
   level: string;
   message: string;
+  target_id: string | null;
+  url?: string;
+  line?: number;
+  column?: number;
+  stack?: StackFrame[];
+  /** Id of the logpoint that wrote this entry (see debugger.ts). */
+  logpoint?: string;
+}
+
+export type NetworkState = "pending" | "complete" | "failed";
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+}
+
+/** What triggered a request: parser, script (with the calling location), preload… */
+export interface NetworkInitiator {
+  type: string;
+  url?: string;
+  line?: number;
 }
 
 export interface NetworkEntry {
@@ -22,33 +53,190 @@ export interface NetworkEntry {
   timing_ms: number | null;
   error: string | null;
   timestamp: string;
+  target_id: string | null;
+  state: NetworkState;
+  /** CDP resource type: Document, Stylesheet, Script, XHR, Fetch, Image… */
+  resource_type: string | null;
+  mime_type: string | null;
+  /** Bytes received over the wire, including headers (null until finished). */
+  encoded_size: number | null;
+  request_headers: Record<string, string>;
+  response_headers: Record<string, string> | null;
+  /** Earlier hops when the request was redirected; `url` is the final one. */
+  redirect_chain: RedirectHop[];
+  initiator: NetworkInitiator | null;
+}
+
+export interface TargetInfo {
+  id: string;
+  type: string;
+  title: string;
+  url: string;
+}
+
+/** How a caller identifies a page target — any combination, all must match. */
+export interface TargetSelector {
+  id?: string;
+  url?: string;
+  title?: string;
+}
+
+/** Per-session setup registered by features that keep state in the browser. */
+export type SessionHook = (client: CDP.Client) => Promise<void> | void;
+
+// --- Console Entry Formatting ---
+
+/** Frames kept per stack trace — enough to find the caller without flooding context. */
+const MAX_STACK_FRAMES = 10;
+
+/** Console levels that carry a stack trace; plain logs only keep their source location. */
+const STACK_LEVELS = new Set(["error", "warning", "assert", "trace", "exception"]);
+
+interface RemoteValue {
+  type: string;
+  value?: unknown;
+  description?: string;
+}
+
+interface RawStackTrace {
+  callFrames: Array<{ functionName: string; url: string; lineNumber: number; columnNumber: number }>;
+}
+
+export interface RawExceptionDetails {
+  text: string;
+  lineNumber: number;
+  columnNumber: number;
+  url?: string;
+  stackTrace?: RawStackTrace;
+  exception?: RemoteValue;
+}
+
+export function formatRemoteValue(arg: RemoteValue): string {
+  if (arg.type === "string") return arg.value as string;
+  if (arg.type === "undefined") return "undefined";
+  if (arg.value !== undefined) return JSON.stringify(arg.value);
+  if (arg.description) return arg.description;
+  return `[${arg.type}]`;
+}
+
+const LOGPOINT_MARKER = /^\[logpoint:([\w-]+)\]$/;
+
+/** First console argument a logpoint logs, so its output can be told apart from the page's. */
+export function logpointMarker(id: string): string {
+  return `[logpoint:${id}]`;
+}
+
+/** Split a leading logpoint marker off console arguments. */
+export function splitLogpoint<T extends RemoteValue>(args: T[]): { logpoint?: string; args: T[] } {
+  const first = args[0];
+  const match = first?.type === "string" ? LOGPOINT_MARKER.exec(String(first.value)) : null;
+  return match ? { logpoint: match[1], args: args.slice(1) } : { args };
+}
+
+export function toStackFrames(stackTrace: RawStackTrace | undefined): StackFrame[] {
+  if (!stackTrace) return [];
+  return stackTrace.callFrames.slice(0, MAX_STACK_FRAMES).map((f) => ({
+    function_name: f.functionName || "(anonymous)",
+    url: f.url,
+    line: f.lineNumber + 1,
+    column: f.columnNumber + 1,
+  }));
+}
+
+/** Source location (from the top frame) plus the stack for levels that warrant one. */
+export function withLocation(entry: ConsoleEntry, stackTrace: RawStackTrace | undefined): ConsoleEntry {
+  const frames = toStackFrames(stackTrace);
+  const top = frames.find((f) => f.url) ?? frames[0];
+  if (!top) return entry;
+  const located: ConsoleEntry = { ...entry, url: top.url, line: top.line, column: top.column };
+  if (STACK_LEVELS.has(entry.level)) {
+    located.stack = frames;
+  }
+  return located;
+}
+
+/**
+ * Build an "exception" entry from Runtime.exceptionThrown. Uncaught errors
+ * read "Uncaught TypeError: …", unhandled rejections "Uncaught (in promise) …".
+ */
+export function exceptionToEntry(details: RawExceptionDetails, timestamp: string, target_id: string | null): ConsoleEntry {
+  const exception = details.exception;
+  // Error descriptions embed the V8 stack — keep only the "Name: message" line
+  const summary = exception?.description?.split("\n")[0]
+    ?? (exception ? formatRemoteValue(exception) : null);
+  const message = summary ? `${details.text} ${summary}` : details.text;
+
+  const entry: ConsoleEntry = { timestamp, level: "exception", message, target_id };
+  if (details.stackTrace?.callFrames.length) {
+    return withLocation(entry, details.stackTrace);
+  }
+  if (details.url) {
+    return { ...entry, url: details.url, line: details.lineNumber + 1, column: details.columnNumber + 1 };
+  }
+  return entry;
 }
 
 // --- Circular Buffer ---
 
+export interface Sequenced<T> {
+  seq: number;
+  item: T;
+}
+
+export interface BufferRead<T> {
+  entries: Array<Sequenced<T>>;
+  /** Pass back as `after` to continue from here. */
+  nextCursor: number;
+  /** Entries after the cursor that were dropped (evicted, or drained by another reader) before this read. */
+  evicted: number;
+}
+
 export class CircularBuffer<T> {
-  private buffer: T[] = [];
+  private buffer: Array<Sequenced<T>> = [];
   private maxSize: number;
+  private nextSeq = 1;
 
   constructor(maxSize: number) {
     this.maxSize = maxSize;
   }
 
   push(item: T): void {
-    this.buffer.push(item);
+    this.buffer.push({ seq: this.nextSeq++, item });
     if (this.buffer.length > this.maxSize) {
       this.buffer.shift();
     }
   }
 
   drain(): T[] {
-    const items = this.buffer;
+    const items = this.buffer.map((e) => e.item);
     this.buffer = [];
     return items;
   }
 
   peek(): T[] {
-    return [...this.buffer];
+    return this.buffer.map((e) => e.item);
+  }
+
+  /**
+   * Non-destructive read of everything pushed after the `after` sequence
+   * number (everything buffered when omitted). Sequence numbers increase
+   * monotonically and are never reused, so several readers can each keep
+   * their own cursor.
+   */
+  read(after?: number): BufferRead<T> {
+    const from = after ?? 0;
+    const oldestSeq = this.buffer[0]?.seq ?? this.nextSeq;
+    return {
+      entries: this.buffer.filter((e) => e.seq > from),
+      nextCursor: this.cursor,
+      // Without a cursor there is no position to have fallen behind
+      evicted: after === undefined ? 0 : Math.max(0, oldestSeq - 1 - from),
+    };
+  }
+
+  /** Sequence number of the newest entry ever pushed (0 if none). */
+  get cursor(): number {
+    return this.nextSeq - 1;
   }
 
   get length(): number {
@@ -65,16 +253,115 @@ export const config = {
   networkBufferSize: parseInt(process.env.NETWORK_BUFFER_SIZE ?? "200", 10),
 };
 
+// Background reconnect backoff after an unexpected disconnect
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 10000;
+const RECONNECT_MAX_ATTEMPTS = 8;
+
 // --- Pending network request tracking ---
 
 interface PendingRequest {
-  id: string;
-  url: string;
-  method: string;
-  timestamp: string;
+  entry: NetworkEntry;
   startTime: number;
 }
 
+/** Extra-info headers held for requests whose main event hasn't arrived (some never do). */
+const MAX_ORPHAN_HEADERS = 500;
+
+function rememberHeaders(map: Map<string, Record<string, string>>, requestId: string, headers: Record<string, string>): void {
+  map.set(requestId, headers);
+  if (map.size > MAX_ORPHAN_HEADERS) {
+    const oldest = map.keys().next().value;
+    if (oldest !== undefined) map.delete(oldest);
+  }
+}
+
+function elapsedMs(startTime: number, endTime: number): number {
+  return Math.round((endTime - startTime) * 1000 * 100) / 100;
+}
+
+export function toInitiator(initiator: {
+  type: string;
+  url?: string;
+  lineNumber?: number;
+  stack?: { callFrames: Array<{ url: string; lineNumber: number }> };
+}): NetworkInitiator {
+  const frame = initiator.stack?.callFrames.find((f) => f.url);
+  if (frame) {
+    return { type: initiator.type, url: frame.url, line: frame.lineNumber + 1 };
+  }
+  if (initiator.url) {
+    return {
+      type: initiator.type,
+      url: initiator.url,
+      ...(initiator.lineNumber !== undefined && { line: initiator.lineNumber + 1 }),
+    };
+  }
+  return { type: initiator.type };
+}
+
+// --- Target Selection ---
+
+const SKIP_URL_PREFIXES = ["devtools://", "chrome://", "chrome-extension://"];
+
+export function isPageTarget(target: { type: string }): boolean {
+  return target.type === "page";
+}
+
+/**
+ * Pick a page target. With a selector, returns the first page matching every
+ * given field (id exact, url substring, title case-insensitive substring).
+ * Without one, prefers a localhost page (likely the dev server), then any
+ * http(s) page, then any page at all.
+ */
+export function pickTarget<T extends TargetInfo>(targets: T[], selector?: TargetSelector): T | undefined {
+  const pages = targets.filter(isPageTarget);
+
+  if (selector) {
+    return pages.find((t) =>
+      (selector.id === undefined || t.id === selector.id) &&
+      (selector.url === undefined || t.url.includes(selector.url)) &&
+      (selector.title === undefined || t.title.toLowerCase().includes(selector.title.toLowerCase()))
+    );
+  }
+
+  const webPages = pages.filter(
+    (t) =>
+      (t.url.startsWith("http://") || t.url.startsWith("https://")) &&
+      !SKIP_URL_PREFIXES.some((prefix) => t.url.startsWith(prefix))
+  );
+  // Prefer localhost/127.0.0.1 (likely the dev server)
+  return webPages.find(
+    (t) => t.url.startsWith("http://localhost") || t.url.startsWith("http://127.0.0.1")
+  ) ?? webPages[0] ?? pages[0];
+}
+
+/**
+ * What a supervised connection follows across reconnects: the exact target
+ * first, then (if that tab is gone) any page whose URL contains the pattern.
+ */
+export interface FollowedTarget {
+  id: string;
+  urlPattern: string | null;
+}
+
+export function findFollowedTarget<T extends TargetInfo>(targets: T[], followed: FollowedTarget): T | undefined {
+  return pickTarget(targets, { id: followed.id })
+    ?? (followed.urlPattern !== null ? pickTarget(targets, { url: followed.urlPattern }) : undefined);
+}
+
+function originOf(url: string): string | null {
+  try {
+    const { protocol, origin } = new URL(url);
+    return protocol === "http:" || protocol === "https:" ? origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The followed target no longer exists — retrying will not bring it back. */
+class TargetGoneError extends Error {}
+
 // --- PID File ---
 
 function pidFilePath(): string {
@@ -132,10 +419,20 @@ export class CDPClient {
   private client: CDP.Client | null = null;
   private connectingPromise: Promise<CDP.Client> | null = null;
   private launchedProcess: ChildProcess | null = null;
+  private currentTarget: TargetInfo | null = null;
+  private followed: FollowedTarget | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private disconnectedAt: number | null = null;
+  private shuttingDown = false;
+  private sessionHooks: SessionHook[] = [];
 
   readonly consoleLogs: CircularBuffer<ConsoleEntry>;
   readonly networkRequests: CircularBuffer<NetworkEntry>;
+  readonly sourceMaps = new SourceMapResolver();
   private pendingRequests = new Map<string, PendingRequest>();
+  // ExtraInfo events carry the raw headers (Cookie, Set-Cookie…) and may arrive before the main event
+  private extraRequestHeaders = new Map<string, Record<string, string>>();
+  private extraResponseHeaders = new Map<string, Record<string, string>>();
 
   constructor() {
     this.consoleLogs = new CircularBuffer<ConsoleEntry>(config.consoleBufferSize);
@@ -157,12 +454,16 @@ export class CDPClient {
       this.cleanup();
     }
 
-    // Deduplicate concurrent connection attempts
+    return this.dedupeConnect(() => this.connect());
+  }
+
+  /** Deduplicate concurrent connection attempts (tool calls and background reconnects share one). */
+  private async dedupeConnect(connectFn: () => Promise<CDP.Client>): Promise<CDP.Client> {
     if (this.connectingPromise) {
       return this.connectingPromise;
     }
 
-    this.connectingPromise = this.connect();
+    this.connectingPromise = connectFn();
     try {
       return await this.connectingPromise;
     } finally {
@@ -184,7 +485,126 @@ export class CDPClient {
       try { this.client.close(); } catch { /* already closed */ }
       this.client = null;
     }
+    this.currentTarget = null;
+    this.clearPendingRequests();
+  }
+
+  private clearPendingRequests(): void {
     this.pendingRequests.clear();
+    this.extraRequestHeaders.clear();
+    this.extraResponseHeaders.clear();
+  }
+
+  /** Requests that have started but not yet finished or failed, oldest first. */
+  getPendingRequests(): NetworkEntry[] {
+    return Array.from(this.pendingRequests.values(), (p) => ({ ...p.entry }));
+  }
+
+  /**
+   * Register setup to run on every new session — first connect, reconnects and
+   * target switches — so state like mock rules survives the connection.
+   */
+  onSession(hook: SessionHook): void {
+    this.sessionHooks.push(hook);
+  }
+
+  /** The active client, without connecting. Null while disconnected. */
+  getClient(): CDP.Client | null {
+    return this.client;
+  }
+
+  /** The page target the active connection is attached to, if any. */
+  getCurrentTarget(): TargetInfo | null {
+    return this.currentTarget;
+  }
+
+  /** The target the supervised connection will reattach to after a disconnect. */
+  getFollowedTarget(): FollowedTarget | null {
+    return this.followed;
+  }
+
+  /** Whether a background reconnect is scheduled after an unexpected disconnect. */
+  isReconnecting(): boolean {
+    return this.reconnectTimer !== null;
+  }
+
+  /** Make sure Chrome is reachable, auto-launching it via ensureConnected() if not. */
+  private async ensureBrowser(): Promise<void> {
+    try {
+      await CDP.Version({ host: config.host, port: config.port });
+    } catch {
+      await this.ensureConnected();
+    }
+  }
+
+  /** List page targets via the HTTP endpoint (does not require a page connection). */
+  async listTargets(): Promise<Array<TargetInfo & { current: boolean }>> {
+    await this.ensureBrowser();
+    const targets = await CDP.List({ host: config.host, port: config.port });
+    return targets.filter(isPageTarget).map((t: TargetInfo) => ({
+      id: t.id,
+      type: t.type,
+      title: t.title,
+      url: t.url,
+      current: t.id === this.currentTarget?.id,
+    }));
+  }
+
+  /**
+   * Switch the connection to a different page target. The old session is
+   * closed and console/network handlers are re-attached to the new one;
+   * already-buffered entries are kept (each records its target_id).
+   */
+  async selectTarget(selector: TargetSelector): Promise<TargetInfo> {
+    if (process.env.CDP_WS_URL) {
+      throw new Error("Target switching is not available when connecting via CDP_WS_URL.");
+    }
+
+    await this.ensureBrowser();
+
+    const targets = await CDP.List({ host: config.host, port: config.port });
+    const target = pickTarget<TargetInfo>(targets, selector);
+    if (!target) {
+      throw new Error(`No page target matches ${JSON.stringify(selector)}. Use list_targets to see open pages.`);
+    }
+
+    this.followed = { id: target.id, urlPattern: selector.url ?? originOf(target.url) };
+
+    if (this.currentTarget?.id === target.id && this.client) {
+      return this.currentTarget;
+    }
+
+    this.cleanup();
+
+    try {
+      await CDP.Activate({ host: config.host, port: config.port, id: target.id });
+    } catch { /* best-effort — background tabs still work, just throttled */ }
+
+    await this.ensureConnected();
+    return this.currentTarget ?? target;
+  }
+
+  /** Open a new tab, optionally switching the connection to it. */
+  async openTab(url: string, select: boolean): Promise<TargetInfo> {
+    await this.ensureBrowser();
+    const target = await CDP.New({ host: config.host, port: config.port, url });
+    const info: TargetInfo = { id: target.id, type: target.type, title: target.title, url: target.url };
+    if (select) {
+      return await this.selectTarget({ id: target.id });
+    }
+    return info;
+  }
+
+  /** Close a tab. Closing the current target drops the connection; the next call reconnects using the default heuristic. */
+  async closeTab(id: string): Promise<void> {
+    // Stop following before closing so the disconnect isn't treated as unexpected
+    if (this.followed?.id === id) {
+      this.followed = null;
+    }
+    if (this.currentTarget?.id === id) {
+      this.cleanup();
+    }
+    await CDP.Close({ host: config.host, port: config.port, id });
   }
 
   private async connect(): Promise<CDP.Client> {
@@ -195,8 +615,9 @@ export class CDPClient {
     try {
       return await this.connectToExistingChrome();
     } catch (firstErr) {
-      // CDP_WS_URL bypasses auto-launch — if it failed, don't try anything else
-      if (process.env.CDP_WS_URL) {
+      // CDP_WS_URL bypasses auto-launch — if it failed, don't try anything else.
+      // A closed followed tab means Chrome is up, so launching another won't help.
+      if (process.env.CDP_WS_URL || firstErr instanceof TargetGoneError) {
         throw firstErr;
       }
 
@@ -217,7 +638,8 @@ export class CDPClient {
         this.launchedProcess = null;
       }
 
-      // Launch Chrome
+      // Launch Chrome — a fresh browser has none of the old tabs, so stop following
+      this.followed = null;
       this.launchedProcess = await launchChrome(config.port, config.host);
       if (this.launchedProcess.pid) {
         writePidFile(this.launchedProcess.pid);
@@ -228,16 +650,14 @@ export class CDPClient {
     }
   }
 
-  private async connectToExistingChrome(): Promise<CDP.Client> {
+  private async connectToExistingChrome(maxRetries = 3): Promise<CDP.Client> {
     const wsUrl = process.env.CDP_WS_URL;
     if (wsUrl) {
       console.error(`[relay-inspect] Connecting directly via CDP_WS_URL: ${wsUrl}`);
       try {
         const client = await CDP({ target: wsUrl });
         this.client = client;
-        await this.enableDomains(client);
-        this.attachEventHandlers(client);
-        this.attachDisconnectHandler(client);
+        await this.setupSession(client);
         return client;
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
@@ -245,7 +665,6 @@ export class CDPClient {
       }
     }
 
-    const maxRetries = 3;
     let delay = 500;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -253,24 +672,29 @@ export class CDPClient {
         console.error(`[relay-inspect] Connecting to Chrome at ${config.host}:${config.port} (attempt ${attempt}/${maxRetries})...`);
 
         // Discover targets via HTTP (fresh every time — never cached)
-        const targets = await CDP.List({ host: config.host, port: config.port });
-        const pageTargets = targets.filter((t: { type: string }) => t.type === "page");
-        const skipPrefixes = ["devtools://", "chrome://", "chrome-extension://"];
-        const webPages = pageTargets.filter(
-          (t: { url: string }) =>
-            (t.url.startsWith("http://") || t.url.startsWith("https://")) &&
-            !skipPrefixes.some((prefix) => t.url.startsWith(prefix))
-        );
-        // Prefer localhost/127.0.0.1 (likely the dev server)
-        const preferred = webPages.find(
-          (t: { url: string }) =>
-            t.url.startsWith("http://localhost") || t.url.startsWith("http://127.0.0.1")
-        ) ?? webPages[0] ?? pageTargets[0];
+        const targets: TargetInfo[] = await CDP.List({ host: config.host, port: config.port });
+        let preferred: TargetInfo | undefined;
+        if (this.followed) {
+          // Never silently switch to an unrelated page — the agent asked for this one
+          preferred = findFollowedTarget(targets, this.followed);
+          if (!preferred) {
+            throw new TargetGoneError(
+              `The followed tab (${this.followed.urlPattern ?? this.followed.id}) is no longer open. ` +
+              `Use list_targets and select_target to pick another page.`
+            );
+          }
+        } else {
+          preferred = pickTarget(targets);
+        }
 
         let client: CDP.Client;
         if (preferred) {
           console.error(`[relay-inspect] Selected target: ${preferred.url}`);
           client = await CDP({ host: config.host, port: config.port, target: preferred.id });
+          this.currentTarget = { id: preferred.id, type: preferred.type, title: preferred.title, url: preferred.url };
+          if (this.followed?.id !== preferred.id) {
+            this.followed = { id: preferred.id, urlPattern: this.followed?.urlPattern ?? originOf(preferred.url) };
+          }
         } else {
           console.error(`[relay-inspect] No page targets found, using default target.`);
           client = await CDP({ host: config.host, port: config.port });
@@ -279,14 +703,16 @@ export class CDPClient {
         this.client = client;
         console.error(`[relay-inspect] Connected to Chrome.`);
 
-        await this.enableDomains(client);
-        this.attachEventHandlers(client);
-        this.attachDisconnectHandler(client);
+        await this.setupSession(client);
         return client;
       } catch (err) {
         // Clean up any partial connection from this attempt
         this.cleanup();
 
+        if (err instanceof TargetGoneError) {
+          throw err;
+        }
+
         const message = err instanceof Error ? err.message : String(err);
         console.error(`[relay-inspect] Connection attempt ${attempt} failed: ${message}`);
 
@@ -337,6 +763,8 @@ export class CDPClient {
   }
 
   async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+    this.cancelReconnect();
     this.cleanup();
 
     if (this.launchedProcess?.pid) {
@@ -354,6 +782,21 @@ export class CDPClient {
     deletePidFile();
   }
 
+  /** Enable domains and attach handlers on a freshly connected client. */
+  private async setupSession(client: CDP.Client): Promise<void> {
+    await this.enableDomains(client);
+    this.attachEventHandlers(client);
+    this.attachDisconnectHandler(client);
+    await this.runSessionHooks(client);
+    this.cancelReconnect();
+
+    if (this.disconnectedAt !== null) {
+      const gapSeconds = ((Date.now() - this.disconnectedAt) / 1000).toFixed(1);
+      this.pushGapEntry(`Reconnected after ${gapSeconds}s. Events during the gap were not captured.`);
+      this.disconnectedAt = null;
+    }
+  }
+
   private async enableDomains(client: CDP.Client): Promise<void> {
     await Promise.all([
       client.Runtime.enable(),
@@ -361,68 +804,181 @@ export class CDPClient {
       client.DOM.enable({}),
       client.Page.enable(),
       client.Log.enable(),
+      client.Inspector.enable(),
+      client.Debugger.enable({}),
     ]);
 
-    console.error("[relay-inspect] CDP domains enabled: Runtime, Network, DOM, Page, Log");
+    // Pauses stay off until a breakpoint, logpoint or pause_on_exceptions needs them
+    // (see debugger.ts) — a stray `debugger;` statement must not freeze the page
+    await client.Debugger.setSkipAllPauses({ skip: true });
+
+    console.error("[relay-inspect] CDP domains enabled: Runtime, Network, DOM, Page, Log, Inspector, Debugger");
+  }
+
+  /** Synthetic console entry marking where capture was interrupted. */
+  private pushGapEntry(message: string): void {
+    this.consoleLogs.push({
+      timestamp: new Date().toISOString(),
+      level: "relay",
+      message: `[relay-inspect] ${message}`,
+      target_id: this.currentTarget?.id ?? this.followed?.id ?? null,
+    });
+  }
+
+  private async runSessionHooks(client: CDP.Client): Promise<void> {
+    for (const hook of this.sessionHooks) {
+      try {
+        await hook(client);
+      } catch (err) {
+        // One feature failing to re-apply shouldn't take the connection down
+        console.error(`[relay-inspect] Session hook failed: ${err instanceof Error ? err.message : err}`);
+      }
+    }
   }
 
   private attachEventHandlers(client: CDP.Client): void {
+    const target_id = this.currentTarget?.id ?? null;
+
+    // Keep the current target URL fresh as the page navigates
+    client.Page.frameNavigated((params) => {
+      if (params.frame.parentId || !this.currentTarget || this.client !== client) return;
+      this.currentTarget.url = params.frame.url;
+    });
+
+    // Scripts with source maps — fetched in the background for stack rewriting
+    client.Debugger.scriptParsed((params) => {
+      this.sourceMaps.registerScript(params.url, params.sourceMapURL, params.hash);
+    });
+
     // Console API calls (console.log, console.warn, console.error, etc.)
     client.Runtime.consoleAPICalled((params) => {
-      const message = params.args
-        .map((arg) => {
-          if (arg.type === "string") return arg.value as string;
-          if (arg.type === "undefined") return "undefined";
-          if (arg.value !== undefined) return JSON.stringify(arg.value);
-          if (arg.description) return arg.description;
-          return `[${arg.type}]`;
-        })
-        .join(" ");
-
-      this.consoleLogs.push({
+      const { logpoint, args } = splitLogpoint(params.args);
+      const message = args.map(formatRemoteValue).join(" ");
+
+      this.consoleLogs.push(withLocation({
         timestamp: new Date(params.timestamp).toISOString(),
         level: params.type,
         message,
-      });
+        target_id,
+        ...(logpoint && { logpoint }),
+      }, params.stackTrace));
+    });
+
+    // Uncaught exceptions and unhandled promise rejections
+    client.Runtime.exceptionThrown((params) => {
+      this.consoleLogs.push(exceptionToEntry(
+        params.exceptionDetails,
+        new Date(params.timestamp).toISOString(),
+        target_id,
+      ));
     });
 
     // Browser-level log entries
     client.Log.entryAdded((params) => {
-      this.consoleLogs.push({
+      const entry: ConsoleEntry = {
         timestamp: new Date(params.entry.timestamp).toISOString(),
         level: params.entry.level,
         message: `[browser] ${params.entry.text}`,
-      });
+        target_id,
+      };
+      if (params.entry.stackTrace) {
+        this.consoleLogs.push(withLocation(entry, params.entry.stackTrace));
+      } else if (params.entry.url) {
+        this.consoleLogs.push({
+          ...entry,
+          url: params.entry.url,
+          ...(params.entry.lineNumber !== undefined && { line: params.entry.lineNumber + 1 }),
+        });
+      } else {
+        this.consoleLogs.push(entry);
+      }
     });
 
-    // Network: request will be sent
+    // Network: request will be sent (again, with redirectResponse, for each redirect hop)
     client.Network.requestWillBeSent((params) => {
+      const existing = this.pendingRequests.get(params.requestId);
+      if (existing && params.redirectResponse) {
+        existing.entry.redirect_chain.push({ url: existing.entry.url, status: params.redirectResponse.status });
+        existing.entry.url = params.request.url;
+        existing.entry.method = params.request.method;
+        // Each hop sends its own headers (cookies, Referer), so the previous hop's don't carry over
+        existing.entry.request_headers = { ...params.request.headers };
+        return;
+      }
+
+      const extraHeaders = this.extraRequestHeaders.get(params.requestId);
+      this.extraRequestHeaders.delete(params.requestId);
+
       this.pendingRequests.set(params.requestId, {
-        id: params.requestId,
-        url: params.request.url,
-        method: params.request.method,
-        timestamp: new Date(params.wallTime * 1000).toISOString(),
+        entry: {
+          id: params.requestId,
+          url: params.request.url,
+          method: params.request.method,
+          status: null,
+          timing_ms: null,
+          error: null,
+          timestamp: new Date(params.wallTime * 1000).toISOString(),
+          target_id,
+          state: "pending",
+          resource_type: params.type ?? null,
+          mime_type: null,
+          encoded_size: null,
+          request_headers: { ...params.request.headers, ...extraHeaders },
+          response_headers: null,
+          redirect_chain: [],
+          initiator: toInitiator(params.initiator),
+        },
         startTime: params.timestamp,
       });
     });
 
-    // Network: response received
+    // Network: raw request headers as actually sent (includes Cookie)
+    client.Network.requestWillBeSentExtraInfo((params) => {
+      const pending = this.pendingRequests.get(params.requestId);
+      if (pending) {
+        Object.assign(pending.entry.request_headers, params.headers);
+      } else {
+        rememberHeaders(this.extraRequestHeaders, params.requestId, params.headers);
+      }
+    });
+
+    // Network: response received — headers are in, body may still be loading
     client.Network.responseReceived((params) => {
       const pending = this.pendingRequests.get(params.requestId);
       if (!pending) return;
 
-      this.pendingRequests.delete(params.requestId);
+      const extraHeaders = this.extraResponseHeaders.get(params.requestId);
+      this.extraResponseHeaders.delete(params.requestId);
 
-      const timing_ms = Math.round((params.timestamp - pending.startTime) * 1000 * 100) / 100;
+      pending.entry.status = params.response.status;
+      pending.entry.mime_type = params.response.mimeType;
+      pending.entry.resource_type = params.type;
+      pending.entry.response_headers = { ...params.response.headers, ...extraHeaders };
+    });
+
+    // Network: raw response headers as received (includes Set-Cookie)
+    client.Network.responseReceivedExtraInfo((params) => {
+      const pending = this.pendingRequests.get(params.requestId);
+      if (pending?.entry.response_headers) {
+        Object.assign(pending.entry.response_headers, params.headers);
+      } else {
+        rememberHeaders(this.extraResponseHeaders, params.requestId, params.headers);
+      }
+    });
+
+    // Network: loading finished — body fully received
+    client.Network.loadingFinished((params) => {
+      const pending = this.pendingRequests.get(params.requestId);
+      if (!pending) return;
+
+      this.pendingRequests.delete(params.requestId);
+      this.extraResponseHeaders.delete(params.requestId);
 
       this.networkRequests.push({
-        id: pending.id,
-        url: pending.url,
-        method: pending.method,
-        status: params.response.status,
-        timing_ms,
-        error: null,
-        timestamp: pending.timestamp,
+        ...pending.entry,
+        state: "complete",
+        timing_ms: elapsedMs(pending.startTime, params.timestamp),
+        encoded_size: params.encodedDataLength,
       });
     });
 
@@ -432,29 +988,95 @@ export class CDPClient {
       if (!pending) return;
 
       this.pendingRequests.delete(params.requestId);
-
-      const timing_ms = Math.round((params.timestamp - pending.startTime) * 1000 * 100) / 100;
+      this.extraResponseHeaders.delete(params.requestId);
 
       this.networkRequests.push({
-        id: pending.id,
-        url: pending.url,
-        method: pending.method,
-        status: null,
-        timing_ms,
+        ...pending.entry,
+        state: "failed",
+        timing_ms: elapsedMs(pending.startTime, params.timestamp),
         error: params.errorText,
-        timestamp: pending.timestamp,
+        resource_type: params.type,
       });
     });
   }
 
   private attachDisconnectHandler(client: CDP.Client): void {
+    // Renderer crashed — the session survives but the page is dead until reloaded
+    client.Inspector.targetCrashed(() => {
+      if (this.client !== client) return;
+      console.error("[relay-inspect] Target crashed.");
+      this.clearPendingRequests();
+      this.pushGapEntry("Target crashed (renderer process gone). Reload the page to recover.");
+    });
+
+    // Chrome detached us (tab closed, DevTools took over, renderer swapped) —
+    // drop this session and let the supervisor reattach
+    client.Inspector.detached((params) => {
+      if (this.client !== client) return;
+      console.error(`[relay-inspect] Detached from target: ${params.reason}`);
+      this.handleUnexpectedDisconnect(`Detached from target (${params.reason}).`);
+    });
+
     client.on("disconnect", () => {
+      // A deliberate target switch closes the old client after the new one may
+      // already be in place — only tear down state that belongs to this client
+      if (this.client !== client) return;
       console.error("[relay-inspect] Chrome disconnected.");
-      this.client = null;
-      this.pendingRequests.clear();
-      // No auto-reconnect — next ensureConnected() call will reconnect lazily
+      this.handleUnexpectedDisconnect("Connection to Chrome lost.");
     });
   }
+
+  private handleUnexpectedDisconnect(reason: string): void {
+    this.cleanup();
+    if (this.disconnectedAt === null) {
+      this.disconnectedAt = Date.now();
+      this.pushGapEntry(`${reason} Reconnecting; events until then are not captured.`);
+    }
+    this.scheduleReconnect(1);
+  }
+
+  // --- Background reconnect ---
+
+  private scheduleReconnect(attempt: number): void {
+    if (this.shuttingDown || this.reconnectTimer) return;
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.backgroundReconnect(attempt);
+    }, delay);
+    // Don't keep the process alive just to reconnect
+    this.reconnectTimer.unref();
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private async backgroundReconnect(attempt: number): Promise<void> {
+    if (this.client || this.shuttingDown) return;
+
+    try {
+      // Single attempt, no auto-launch — if the user quit Chrome, leave it closed
+      await this.dedupeConnect(() => this.connectToExistingChrome(1));
+      console.error("[relay-inspect] Background reconnect succeeded.");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (err instanceof TargetGoneError) {
+        this.pushGapEntry(message);
+        return;
+      }
+      if (attempt >= RECONNECT_MAX_ATTEMPTS) {
+        console.error(`[relay-inspect] Giving up background reconnect after ${attempt} attempts: ${message}`);
+        this.pushGapEntry(`Could not reconnect after ${attempt} attempts. The next tool call will retry.`);
+        return;
+      }
+      this.scheduleReconnect(attempt + 1);
+    }
+  }
 }
 
 function sleep(ms: number): Promise<void> {
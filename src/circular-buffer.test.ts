@@ -44,3 +44,56 @@ describe("CircularBuffer", () => {
     expect(buf.peek()).toEqual(["b"]);
   });
 });
+
+describe("CircularBuffer cursors", () => {
+  it("assigns increasing sequence numbers", () => {
+    const buf = new CircularBuffer<string>(5);
+    buf.push("a");
+    buf.push("b");
+    expect(buf.read()).toEqual({
+      entries: [{ seq: 1, item: "a" }, { seq: 2, item: "b" }],
+      nextCursor: 2,
+      evicted: 0,
+    });
+  });
+
+  it("reads only entries after the cursor without removing them", () => {
+    const buf = new CircularBuffer<string>(5);
+    buf.push("a");
+    const first = buf.read();
+    buf.push("b");
+    buf.push("c");
+    expect(buf.read(first.nextCursor).entries.map((e) => e.item)).toEqual(["b", "c"]);
+    expect(buf.length).toBe(3);
+  });
+
+  it("keeps independent readers from stealing each other's entries", () => {
+    const buf = new CircularBuffer<number>(5);
+    buf.push(1);
+    buf.push(2);
+    expect(buf.read(0).entries).toHaveLength(2);
+    expect(buf.read(0).entries).toHaveLength(2);
+  });
+
+  it("reports entries evicted before the reader saw them", () => {
+    const buf = new CircularBuffer<number>(2);
+    buf.push(1);
+    const cursor = buf.read().nextCursor;
+    buf.push(2);
+    buf.push(3);
+    buf.push(4);
+    const result = buf.read(cursor);
+    expect(result.entries.map((e) => e.item)).toEqual([3, 4]);
+    expect(result.evicted).toBe(1);
+  });
+
+  it("never reuses sequence numbers after a drain", () => {
+    const buf = new CircularBuffer<string>(5);
+    buf.push("a");
+    buf.drain();
+    buf.push("b");
+    expect(buf.read().entries).toEqual([{ seq: 2, item: "b" }]);
+    expect(buf.cursor).toBe(2);
+    expect(buf.read(2)).toEqual({ entries: [], nextCursor: 2, evicted: 0 });
+  });
+});
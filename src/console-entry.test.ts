@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { exceptionToEntry, formatRemoteValue, logpointMarker, splitLogpoint, withLocation, type ConsoleEntry } from "./cdp-client.js";
+
+const frame = (functionName: string, url: string, lineNumber: number, columnNumber: number) =>
+  ({ functionName, url, lineNumber, columnNumber });
+
+describe("formatRemoteValue", () => {
+  it("formats strings, primitives and objects", () => {
+    expect(formatRemoteValue({ type: "string", value: "hi" })).toBe("hi");
+    expect(formatRemoteValue({ type: "undefined" })).toBe("undefined");
+    expect(formatRemoteValue({ type: "number", value: 42 })).toBe("42");
+    expect(formatRemoteValue({ type: "object", description: "Array(3)" })).toBe("Array(3)");
+    expect(formatRemoteValue({ type: "symbol" })).toBe("[symbol]");
+  });
+});
+
+describe("splitLogpoint", () => {
+  it("strips the logpoint marker and returns the id", () => {
+    const value = { type: "number", value: 3 };
+    expect(splitLogpoint([{ type: "string", value: logpointMarker("lp-4") }, value])).toEqual({ logpoint: "lp-4", args: [value] });
+  });
+
+  it("leaves ordinary console calls alone", () => {
+    const args = [{ type: "string", value: "[logpoint] not ours" }, { type: "number", value: 1 }];
+    expect(splitLogpoint(args)).toEqual({ args });
+  });
+});
+
+describe("withLocation", () => {
+  const base: ConsoleEntry = { timestamp: "t", level: "log", message: "m", target_id: "tab" };
+  const stack = { callFrames: [frame("", "http://localhost/app.js", 9, 4), frame("main", "http://localhost/main.js", 0, 0)] };
+
+  it("adds 1-based location from the top frame", () => {
+    const entry = withLocation(base, stack);
+    expect(entry).toMatchObject({ url: "http://localhost/app.js", line: 10, column: 5 });
+    expect(entry.stack).toBeUndefined();
+  });
+
+  it("keeps the stack for error-like levels", () => {
+    const entry = withLocation({ ...base, level: "error" }, stack);
+    expect(entry.stack).toEqual([
+      { function_name: "(anonymous)", url: "http://localhost/app.js", line: 10, column: 5 },
+      { function_name: "main", url: "http://localhost/main.js", line: 1, column: 1 },
+    ]);
+  });
+
+  it("trims long stacks", () => {
+    const deep = { callFrames: Array.from({ length: 50 }, (_, i) => frame(`f${i}`, "http://localhost/a.js", i, 0)) };
+    expect(withLocation({ ...base, level: "error" }, deep).stack).toHaveLength(10);
+  });
+
+  it("leaves entries without a stack untouched", () => {
+    expect(withLocation(base, undefined)).toEqual(base);
+  });
+});
+
+describe("exceptionToEntry", () => {
+  it("summarizes uncaught errors without the embedded V8 stack", () => {
+    const entry = exceptionToEntry({
+      text: "Uncaught",
+      lineNumber: 11,
+      columnNumber: 7,
+      url: "http://localhost/app.js",
+      stackTrace: { callFrames: [frame("onClick", "http://localhost/app.js", 11, 7)] },
+      exception: { type: "object", description: "TypeError: x is undefined\n    at onClick (app.js:12:8)" },
+    }, "t", "tab");
+
+    expect(entry).toMatchObject({
+      level: "exception",
+      message: "Uncaught TypeError: x is undefined",
+      url: "http://localhost/app.js",
+      line: 12,
+      column: 8,
+      target_id: "tab",
+    });
+    expect(entry.stack).toHaveLength(1);
+  });
+
+  it("formats unhandled rejections of non-Error values", () => {
+    const entry = exceptionToEntry({
+      text: "Uncaught (in promise)",
+      lineNumber: 0,
+      columnNumber: 0,
+      exception: { type: "string", value: "nope" },
+    }, "t", null);
+    expect(entry.message).toBe("Uncaught (in promise) nope");
+    expect(entry.url).toBeUndefined();
+  });
+});
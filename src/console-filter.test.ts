@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import type { ConsoleEntry } from "./cdp-client.js";
+import { dedupeEntries, queryConsole, severityOf } from "./console-filter.js";
+
+function entry(level: string, message: string, second = 0): ConsoleEntry {
+  return { timestamp: new Date(Date.UTC(2025, 0, 1, 0, 0, second)).toISOString(), level, message, target_id: null };
+}
+
+describe("severityOf", () => {
+  it("orders levels from debug to exception", () => {
+    expect(severityOf("debug")).toBeLessThan(severityOf("log"));
+    expect(severityOf("info")).toBe(severityOf("log"));
+    expect(severityOf("warning")).toBeLessThan(severityOf("error"));
+    expect(severityOf("error")).toBeLessThan(severityOf("exception"));
+  });
+});
+
+describe("queryConsole", () => {
+  const entries = [
+    entry("log", "render App", 0),
+    entry("warning", "deprecated prop", 1),
+    entry("error", "Failed to fetch /api/users", 2),
+    entry("exception", "Uncaught TypeError: x is undefined", 3),
+    entry("debug", "tick", 4),
+  ];
+
+  it("returns everything without filters", () => {
+    expect(queryConsole(entries, {})).toMatchObject({ matched: 5, truncated: false });
+  });
+
+  it("filters by exact levels and minimum severity", () => {
+    expect(queryConsole(entries, { levels: ["warning", "debug"] }).entries.map((e) => e.message))
+      .toEqual(["deprecated prop", "tick"]);
+    expect(queryConsole(entries, { min_level: "error" }).entries.map((e) => e.level))
+      .toEqual(["error", "exception"]);
+  });
+
+  it("filters by regex, substring and timestamp", () => {
+    expect(queryConsole(entries, { pattern: "^Uncaught \\w+Error" }).matched).toBe(1);
+    expect(queryConsole(entries, { contains: "API/USERS" }).matched).toBe(1);
+    expect(queryConsole(entries, { since: entries[3].timestamp }).matched).toBe(2);
+  });
+
+  it("filters by logpoint id", () => {
+    const logged = [...entries, { ...entry("log", "3 19.99", 5), logpoint: "lp-1" }, { ...entry("log", "cart", 6), logpoint: "lp-2" }];
+    expect(queryConsole(logged, { logpoint: "lp-2" }).entries.map((e) => e.message)).toEqual(["cart"]);
+    expect(queryConsole(logged, { logpoint: "*" }).matched).toBe(2);
+  });
+
+  it("limits from the tail by default and from the head on request", () => {
+    expect(queryConsole(entries, { limit: 2 })).toMatchObject({
+      matched: 5,
+      truncated: true,
+      entries: [{ message: "Uncaught TypeError: x is undefined" }, { message: "tick" }],
+    });
+    expect(queryConsole(entries, { limit: 1, from: "head" }).entries[0].message).toBe("render App");
+  });
+
+  it("rejects invalid patterns and timestamps", () => {
+    expect(() => queryConsole(entries, { pattern: "(" })).toThrow();
+    expect(() => queryConsole(entries, { since: "yesterday" })).toThrow(/Invalid since/);
+  });
+});
+
+describe("dedupeEntries", () => {
+  it("collapses repeats into the first occurrence with a count", () => {
+    const result = dedupeEntries([
+      entry("error", "boom", 0),
+      entry("log", "ok", 1),
+      entry("error", "boom", 2),
+      entry("error", "boom", 3),
+    ]);
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ message: "boom", count: 3, last_timestamp: entry("error", "boom", 3).timestamp });
+    expect(result[1].count).toBeUndefined();
+  });
+
+  it("keeps the same message from different levels apart", () => {
+    expect(dedupeEntries([entry("warning", "x"), entry("error", "x")])).toHaveLength(2);
+  });
+});
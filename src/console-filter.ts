@@ -0,0 +1,108 @@
+import type { ConsoleEntry } from "./cdp-client.js";
+
+// --- Types ---
+
+export const SEVERITIES = ["debug", "info", "warning", "error", "exception"] as const;
+export type Severity = typeof SEVERITIES[number];
+
+export interface ConsoleQuery {
+  /** Exact levels to include (e.g. ["error", "exception"]). */
+  levels?: string[];
+  /** Include only entries at or above this severity. */
+  min_level?: Severity;
+  /** Regular expression tested against the message. */
+  pattern?: string;
+  /** Case-insensitive substring the message must contain. */
+  contains?: string;
+  /** ISO timestamp — only entries at or after it. */
+  since?: string;
+  /** Only output of this logpoint id, or of any logpoint with "*". */
+  logpoint?: string;
+  limit?: number;
+  /** Which end to keep when `limit` truncates (default: tail, the most recent). */
+  from?: "head" | "tail";
+  /** Collapse repeated messages into one entry with a count. */
+  dedupe?: boolean;
+}
+
+export type Deduped<T> = T & { count?: number; last_timestamp?: string };
+
+export interface ConsoleQueryResult<T extends ConsoleEntry> {
+  /** Entries matching the filters, before dedupe and limit. */
+  matched: number;
+  entries: Array<Deduped<T>>;
+  truncated: boolean;
+}
+
+// --- Severity ---
+
+/** Map console API types and browser log levels onto one severity scale. */
+export function severityOf(level: string): number {
+  switch (level) {
+    case "verbose":
+    case "debug":
+      return 0;
+    case "warning":
+    case "relay":
+      return 2;
+    case "error":
+    case "assert":
+      return 3;
+    case "exception":
+      return 4;
+    default:
+      // log, info, dir, table, trace, group…
+      return 1;
+  }
+}
+
+// --- Query ---
+
+/** Throws on an invalid regular expression in `pattern`. */
+export function queryConsole<T extends ConsoleEntry>(entries: T[], query: ConsoleQuery): ConsoleQueryResult<T> {
+  const regex = query.pattern !== undefined ? new RegExp(query.pattern) : null;
+  const contains = query.contains?.toLowerCase();
+  const minSeverity = query.min_level !== undefined ? SEVERITIES.indexOf(query.min_level) : null;
+  const since = query.since !== undefined ? Date.parse(query.since) : null;
+  if (since !== null && Number.isNaN(since)) {
+    throw new Error(`Invalid since timestamp: "${query.since}"`);
+  }
+
+  const matching = entries.filter((e) =>
+    (!query.levels || query.levels.includes(e.level)) &&
+    (minSeverity === null || severityOf(e.level) >= minSeverity) &&
+    (!regex || regex.test(e.message)) &&
+    (!contains || e.message.toLowerCase().includes(contains)) &&
+    (since === null || Date.parse(e.timestamp) >= since) &&
+    (query.logpoint === undefined || (e.logpoint !== undefined && (query.logpoint === "*" || e.logpoint === query.logpoint)))
+  );
+
+  let result: Array<Deduped<T>> = query.dedupe ? dedupeEntries(matching) : matching;
+
+  let truncated = false;
+  if (query.limit !== undefined && result.length > query.limit) {
+    truncated = true;
+    result = query.from === "head" ? result.slice(0, query.limit) : result.slice(-query.limit);
+  }
+
+  return { matched: matching.length, entries: result, truncated };
+}
+
+/**
+ * Collapse entries with the same level, message and source location into the
+ * first occurrence, annotated with how many times it fired and when last.
+ */
+export function dedupeEntries<T extends ConsoleEntry>(entries: T[]): Array<Deduped<T>> {
+  const groups = new Map<string, Deduped<T>>();
+  for (const entry of entries) {
+    const key = `${entry.level}\u0000${entry.message}\u0000${entry.url ?? ""}:${entry.line ?? ""}`;
+    const existing = groups.get(key);
+    if (existing) {
+      existing.count = (existing.count ?? 1) + 1;
+      existing.last_timestamp = entry.timestamp;
+    } else {
+      groups.set(key, { ...entry });
+    }
+  }
+  return Array.from(groups.values());
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { flattenRanges, IstanbulCollector, localPath, mergeRanges, overlap, usageBySource, type FunctionCoverageLike } from "./coverage.js";
+import { SourceMap } from "./source-maps.js";
+
+// Two one-line functions; `a` ran, `b` never did
+const TEXT = "function a(){}\nfunction b(){}\n";
+const FUNCTIONS: FunctionCoverageLike[] = [
+  { functionName: "", ranges: [{ startOffset: 0, endOffset: 30, count: 1 }] },
+  { functionName: "a", ranges: [{ startOffset: 0, endOffset: 14, count: 1 }] },
+  { functionName: "b", ranges: [{ startOffset: 15, endOffset: 29, count: 0 }] },
+];
+
+describe("flattenRanges", () => {
+  it("gives each byte the count of its innermost range", () => {
+    expect(flattenRanges(FUNCTIONS)).toEqual([
+      { start: 0, end: 15, count: 1 },
+      { start: 15, end: 29, count: 0 },
+      { start: 29, end: 30, count: 1 },
+    ]);
+  });
+
+  it("handles blocks nested inside a function", () => {
+    expect(flattenRanges([
+      { functionName: "c", ranges: [{ startOffset: 0, endOffset: 20, count: 2 }, { startOffset: 5, endOffset: 10, count: 0 }] },
+    ])).toEqual([
+      { start: 0, end: 5, count: 2 },
+      { start: 5, end: 10, count: 0 },
+      { start: 10, end: 20, count: 2 },
+    ]);
+  });
+});
+
+describe("mergeRanges / overlap", () => {
+  it("joins overlapping and touching ranges", () => {
+    expect(mergeRanges([{ start: 10, end: 20 }, { start: 0, end: 5 }, { start: 5, end: 8 }, { start: 15, end: 25 }])).toEqual([
+      { start: 0, end: 8 },
+      { start: 10, end: 25 },
+    ]);
+  });
+
+  it("measures how much of a span is covered", () => {
+    const ranges = [{ start: 0, end: 8 }, { start: 10, end: 25 }];
+    expect(overlap(ranges, 5, 12)).toBe(5);
+    expect(overlap(ranges, 8, 10)).toBe(0);
+    expect(overlap(ranges, 0, 100)).toBe(23);
+  });
+});
+
+describe("usageBySource", () => {
+  // Line 1 comes from a.ts, line 2 from b.ts
+  const map = new SourceMap({ version: 3, sources: ["a.ts", "b.ts"], mappings: "AAAA;ACAA" }, "http://app/dist/app.js.map");
+
+  it("splits generated bytes between original files, most unused first", () => {
+    expect(usageBySource(TEXT, [{ start: 0, end: 15 }, { start: 29, end: 30 }], map)).toEqual([
+      { url: "http://app/dist/b.ts", total_bytes: 15, used_bytes: 1, unused_bytes: 14, used_percent: 6.7 },
+      { url: "http://app/dist/a.ts", total_bytes: 15, used_bytes: 15, unused_bytes: 0, used_percent: 100 },
+    ]);
+  });
+
+  it("reports original files in istanbul output", () => {
+    const istanbul = new IstanbulCollector();
+    istanbul.addScript("http://app/dist/app.js", TEXT, FUNCTIONS, map);
+    const json = istanbul.toJSON((url) => url.replace("http://app/dist/", "/proj/src/"));
+    expect(Object.keys(json).sort()).toEqual(["/proj/src/a.ts", "/proj/src/b.ts"]);
+    expect(json["/proj/src/a.ts"].s).toEqual({ 0: 1 });
+    expect(json["/proj/src/b.ts"].s).toEqual({ 0: 0 });
+    expect(json["/proj/src/b.ts"].fnMap[0]).toMatchObject({ name: "b", line: 1 });
+  });
+});
+
+describe("IstanbulCollector", () => {
+  it("reports a statement per line and each function, 1-based lines", () => {
+    const istanbul = new IstanbulCollector();
+    istanbul.addScript("http://app/app.js", TEXT, FUNCTIONS);
+    expect(istanbul.toJSON(() => "/proj/app.js")).toEqual({
+      "/proj/app.js": {
+        path: "/proj/app.js",
+        statementMap: {
+          0: { start: { line: 1, column: 0 }, end: { line: 1, column: 14 } },
+          1: { start: { line: 2, column: 0 }, end: { line: 2, column: 14 } },
+        },
+        s: { 0: 1, 1: 0 },
+        fnMap: {
+          0: { name: "a", decl: { start: { line: 1, column: 0 }, end: { line: 1, column: 14 } }, loc: { start: { line: 1, column: 0 }, end: { line: 1, column: 14 } }, line: 1 },
+          1: { name: "b", decl: { start: { line: 2, column: 0 }, end: { line: 2, column: 14 } }, loc: { start: { line: 2, column: 0 }, end: { line: 2, column: 14 } }, line: 2 },
+        },
+        f: { 0: 1, 1: 0 },
+        branchMap: {},
+        b: {},
+      },
+    });
+  });
+});
+
+describe("localPath", () => {
+  it("resolves URL paths against the project root", () => {
+    expect(localPath("http://localhost:5173/src/app.ts?t=123", "/proj")).toBe("/proj/src/app.ts");
+    expect(localPath("webpack://app/./src/x.ts", "/proj")).toBe("/proj/src/x.ts");
+    expect(localPath("file:///tmp/a.js", "/proj")).toBe("/tmp/a.js");
+  });
+});
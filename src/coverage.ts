@@ -0,0 +1,452 @@
+import type CDP from "chrome-remote-interface";
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { cdpClient, type CDPClient } from "./cdp-client.js";
+import type { SourceMap } from "./source-maps.js";
+import { styleInspector, type StyleInspector } from "./styles.js";
+
+// --- Types ---
+
+/** The parts of CDP's Profiler.FunctionCoverage we read. Offsets are into the script source. */
+export interface FunctionCoverageLike {
+  functionName: string;
+  ranges: Array<{ startOffset: number; endOffset: number; count: number }>;
+}
+
+export interface Range {
+  start: number;
+  end: number;
+}
+
+export interface CountedRange extends Range {
+  count: number;
+}
+
+export interface ByteUsage {
+  total_bytes: number;
+  used_bytes: number;
+  unused_bytes: number;
+  used_percent: number;
+}
+
+export interface FileUsage extends ByteUsage {
+  url: string;
+  /** Original files, when a source map is available. Generated code the map doesn't cover is left out. */
+  sources?: Array<ByteUsage & { url: string }>;
+}
+
+export interface CoverageReport {
+  duration_ms: number;
+  js: ByteUsage & { files: number };
+  css: (ByteUsage & { files: number }) | null;
+  /** Most unused bytes first. */
+  scripts: FileUsage[];
+  stylesheets: FileUsage[];
+}
+
+interface IstanbulLocation {
+  start: { line: number; column: number };
+  end: { line: number; column: number };
+}
+
+/** One file of istanbul's coverage-final.json. */
+export interface IstanbulFileCoverage {
+  path: string;
+  statementMap: Record<string, IstanbulLocation>;
+  fnMap: Record<string, { name: string; decl: IstanbulLocation; loc: IstanbulLocation; line: number }>;
+  branchMap: Record<string, never>;
+  s: Record<string, number>;
+  f: Record<string, number>;
+  b: Record<string, never>;
+}
+
+// --- Config ---
+
+/** Browser and extension scripts aren't the app's code. */
+const IGNORED_URL = /^(chrome|chrome-extension|chrome-untrusted|devtools|extensions):/;
+
+// --- Ranges ---
+
+/**
+ * Turn V8's nested block coverage ranges into disjoint ranges, each with the
+ * count of the innermost range covering it. Ranges nest properly, so a sweep
+ * over start/end points with a stack of counts is enough.
+ */
+export function flattenRanges(functions: FunctionCoverageLike[]): CountedRange[] {
+  const points: Array<{ offset: number; start: boolean; length: number; count: number }> = [];
+  for (const fn of functions) {
+    for (const r of fn.ranges) {
+      const length = r.endOffset - r.startOffset;
+      points.push({ offset: r.startOffset, start: true, length, count: r.count });
+      points.push({ offset: r.endOffset, start: false, length, count: r.count });
+    }
+  }
+  // Ends before starts at the same offset; outer ranges open first and close last
+  points.sort((a, b) => {
+    if (a.offset !== b.offset) return a.offset - b.offset;
+    if (a.start !== b.start) return a.start ? 1 : -1;
+    return a.start ? b.length - a.length : a.length - b.length;
+  });
+
+  const stack: number[] = [];
+  const result: CountedRange[] = [];
+  let last = 0;
+  for (const point of points) {
+    if (stack.length > 0 && last < point.offset) {
+      const count = stack[stack.length - 1];
+      const previous = result[result.length - 1];
+      if (previous && previous.end === last && previous.count === count) {
+        previous.end = point.offset;
+      } else {
+        result.push({ start: last, end: point.offset, count });
+      }
+    }
+    last = point.offset;
+    if (point.start) stack.push(point.count);
+    else stack.pop();
+  }
+  return result;
+}
+
+/** Sorted union of ranges, with touching ranges joined. */
+export function mergeRanges(ranges: Range[]): Range[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const result: Range[] = [];
+  for (const r of sorted) {
+    const previous = result[result.length - 1];
+    if (previous && r.start <= previous.end) {
+      previous.end = Math.max(previous.end, r.end);
+    } else if (r.end > r.start) {
+      result.push({ start: r.start, end: r.end });
+    }
+  }
+  return result;
+}
+
+/** Index of the last range starting at or before `offset`, or -1. */
+function rangeIndexAt(ranges: Range[], offset: number): number {
+  let lo = 0;
+  let hi = ranges.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (ranges[mid].start <= offset) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/** Bytes of [start, end) covered by sorted, disjoint `ranges`. */
+export function overlap(ranges: Range[], start: number, end: number): number {
+  let total = 0;
+  for (let i = Math.max(rangeIndexAt(ranges, start), 0); i < ranges.length && ranges[i].start < end; i++) {
+    total += Math.max(0, Math.min(end, ranges[i].end) - Math.max(start, ranges[i].start));
+  }
+  return total;
+}
+
+function countAt(ranges: CountedRange[], offset: number): number {
+  const i = rangeIndexAt(ranges, offset);
+  return i >= 0 && offset < ranges[i].end ? ranges[i].count : 0;
+}
+
+export function byteUsage(total: number, used: number): ByteUsage {
+  return {
+    total_bytes: total,
+    used_bytes: used,
+    unused_bytes: total - used,
+    used_percent: total > 0 ? Math.round((used / total) * 1000) / 10 : 0,
+  };
+}
+
+// --- Positions ---
+
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) starts.push(i + 1);
+  }
+  return starts;
+}
+
+/** 0-based line and column of an offset. */
+function positionAt(starts: number[], offset: number): { line: number; column: number } {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return { line: lo, column: offset - starts[lo] };
+}
+
+/** Generated code spans from a source map as offsets into `text`. */
+function* mappedSpans(text: string, starts: number[], map: SourceMap) {
+  for (const span of map.spans()) {
+    if (span.line >= starts.length) continue;
+    const lineEnd = span.line + 1 < starts.length ? starts[span.line + 1] : text.length;
+    const start = Math.min(starts[span.line] + span.startColumn, lineEnd);
+    const end = span.endColumn === undefined ? lineEnd : Math.min(starts[span.line] + span.endColumn, lineEnd);
+    if (end > start) yield { start, end, span };
+  }
+}
+
+/** Split generated bytes (and used bytes) between the original files they came from. */
+export function usageBySource(text: string, used: Range[], map: SourceMap): Array<ByteUsage & { url: string }> {
+  const totals = new Map<string, { total: number; used: number }>();
+  for (const { start, end, span } of mappedSpans(text, lineStarts(text), map)) {
+    const entry = totals.get(span.source) ?? { total: 0, used: 0 };
+    entry.total += end - start;
+    entry.used += overlap(used, start, end);
+    totals.set(span.source, entry);
+  }
+  return Array.from(totals, ([url, { total, used: usedBytes }]) => ({ url, ...byteUsage(total, usedBytes) }))
+    .sort((a, b) => b.unused_bytes - a.unused_bytes);
+}
+
+// --- Istanbul ---
+
+/**
+ * Collects line and function coverage per file for istanbul's JSON format.
+ * Every line with code becomes a statement; source-mapped scripts are
+ * reported against their original files. Branch data is not produced.
+ */
+export class IstanbulCollector {
+  private files = new Map<string, {
+    lines: Map<number, { count: number; startColumn: number; endColumn: number }>;
+    functions: Map<string, { name: string; start: { line: number; column: number }; end: { line: number; column: number }; count: number }>;
+  }>();
+
+  private file(url: string) {
+    let file = this.files.get(url);
+    if (!file) this.files.set(url, (file = { lines: new Map(), functions: new Map() }));
+    return file;
+  }
+
+  private addLine(url: string, line: number, column: number, endColumn: number, count: number): void {
+    const lines = this.file(url).lines;
+    const current = lines.get(line);
+    lines.set(line, current
+      ? { count: Math.max(current.count, count), startColumn: Math.min(current.startColumn, column), endColumn: Math.max(current.endColumn, endColumn) }
+      : { count, startColumn: column, endColumn });
+  }
+
+  private addFunction(url: string, name: string, start: { line: number; column: number }, end: { line: number; column: number }, count: number): void {
+    const functions = this.file(url).functions;
+    const key = `${start.line}:${start.column}`;
+    const current = functions.get(key);
+    functions.set(key, { name: name || "(anonymous)", start, end, count: Math.max(current?.count ?? 0, count) });
+  }
+
+  /** Add a script, mapped to original files when `map` is given. Positions stored 0-based. */
+  addScript(url: string, text: string, functions: FunctionCoverageLike[], map?: SourceMap | null): void {
+    const counted = flattenRanges(functions);
+    const starts = lineStarts(text);
+
+    if (map) {
+      for (const { start, end, span } of mappedSpans(text, starts, map)) {
+        if (text.slice(start, end).trim() === "") continue;
+        this.addLine(span.source, span.originalLine, span.originalColumn, span.originalColumn + (end - start), countAt(counted, start));
+      }
+    } else {
+      for (let line = 0; line < starts.length; line++) {
+        const lineText = text.slice(starts[line], line + 1 < starts.length ? starts[line + 1] - 1 : text.length);
+        const first = lineText.search(/\S/);
+        if (first === -1) continue;
+        this.addLine(url, line, first, lineText.trimEnd().length, countAt(counted, starts[line] + first));
+      }
+    }
+
+    for (const fn of functions) {
+      const range = fn.ranges[0];
+      // The script's own top-level "function"
+      if (!range || (range.startOffset === 0 && range.endOffset >= text.length)) continue;
+      const start = positionAt(starts, range.startOffset);
+      const end = positionAt(starts, range.endOffset);
+      if (!map) {
+        this.addFunction(url, fn.functionName, start, end, range.count);
+        continue;
+      }
+      const original = map.originalPositionFor(start.line, start.column);
+      if (!original) continue;
+      const originalEnd = map.originalPositionFor(end.line, end.column);
+      this.addFunction(
+        original.source,
+        fn.functionName,
+        { line: original.line, column: original.column },
+        originalEnd?.source === original.source ? { line: originalEnd.line, column: originalEnd.column } : { line: original.line, column: original.column },
+        range.count,
+      );
+    }
+  }
+
+  /** coverage-final.json contents, keyed by local path. Lines become 1-based, columns stay 0-based. */
+  toJSON(pathFor: (url: string) => string): Record<string, IstanbulFileCoverage> {
+    const result: Record<string, IstanbulFileCoverage> = {};
+    for (const [url, file] of this.files) {
+      const path = pathFor(url);
+      const coverage: IstanbulFileCoverage = { path, statementMap: {}, fnMap: {}, branchMap: {}, s: {}, f: {}, b: {} };
+      Array.from(file.lines).sort(([a], [b]) => a - b).forEach(([line, entry], i) => {
+        coverage.statementMap[i] = {
+          start: { line: line + 1, column: entry.startColumn },
+          end: { line: line + 1, column: entry.endColumn },
+        };
+        coverage.s[i] = entry.count;
+      });
+      Array.from(file.functions.values()).forEach((fn, i) => {
+        const loc = {
+          start: { line: fn.start.line + 1, column: fn.start.column },
+          end: { line: fn.end.line + 1, column: fn.end.column },
+        };
+        coverage.fnMap[i] = { name: fn.name, decl: loc, loc, line: fn.start.line + 1 };
+        coverage.f[i] = fn.count;
+      });
+      result[path] = coverage;
+    }
+    return result;
+  }
+}
+
+/** Local file path for a script or original source URL, resolved against `root` (the project directory). */
+export function localPath(url: string, root: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol === "file:") return fileURLToPath(parsed);
+    // http://localhost:5173/src/app.ts?t=1 and webpack://app/./src/app.ts both end up at <root>/src/app.ts
+    return resolve(root, `.${decodeURIComponent(parsed.pathname)}`);
+  } catch {
+    return resolve(root, url);
+  }
+}
+
+// --- Coverage Recorder ---
+
+interface ScriptCoverage {
+  text: string;
+  functions: FunctionCoverageLike[];
+  used: Range[];
+}
+
+/**
+ * JavaScript block coverage (Profiler precise coverage) and CSS rule usage for
+ * one recording at a time. Like CPU profiles, a recording belongs to the
+ * session it started on.
+ */
+export class CoverageRecorder {
+  private active: { client: CDP.Client; css: boolean; startedAt: number } | null = null;
+
+  constructor(private cdp: CDPClient, private styles: StyleInspector) {
+    cdp.onSession(() => {
+      this.active = null;
+    });
+  }
+
+  isActive(): boolean {
+    return this.active !== null;
+  }
+
+  async start(client: CDP.Client, options: { css: boolean }): Promise<void> {
+    if (this.active) {
+      throw new Error("Coverage is already being collected. Call stop_coverage first.");
+    }
+    await client.Profiler.enable();
+    await client.Profiler.startPreciseCoverage({ callCount: true, detailed: true });
+    if (options.css) {
+      await this.styles.ensureEnabled(client);
+      await client.CSS.startRuleUsageTracking();
+    }
+    this.active = { client, css: options.css, startedAt: Date.now() };
+  }
+
+  async stop(
+    client: CDP.Client,
+    options: { limit: number; istanbul?: IstanbulCollector },
+  ): Promise<CoverageReport> {
+    if (!this.active || this.active.client !== client) {
+      throw new Error("Coverage is not being collected (reconnecting or switching tabs discards it). Call start_coverage first.");
+    }
+    const { css, startedAt } = this.active;
+    this.active = null;
+
+    const { result } = await client.Profiler.takePreciseCoverage();
+    await client.Profiler.stopPreciseCoverage();
+    const ruleUsage = css ? (await client.CSS.stopRuleUsageTracking()).ruleUsage : [];
+
+    // A reload leaves the old copy of each script behind; count code used by either
+    const scripts = new Map<string, ScriptCoverage>();
+    for (const script of result) {
+      if (!script.url || IGNORED_URL.test(script.url)) continue;
+      let text: string;
+      try {
+        ({ scriptSource: text } = await client.Debugger.getScriptSource({ scriptId: script.scriptId }));
+      } catch {
+        continue;
+      }
+      const used = mergeRanges(flattenRanges(script.functions).filter((r) => r.count > 0));
+      const previous = scripts.get(script.url);
+      scripts.set(script.url, {
+        text,
+        functions: script.functions,
+        used: previous?.text.length === text.length ? mergeRanges([...previous.used, ...used]) : used,
+      });
+    }
+
+    const scriptUsage: FileUsage[] = [];
+    for (const [url, script] of scripts) {
+      const map = await this.cdp.sourceMaps.getMap(url);
+      options.istanbul?.addScript(url, script.text, script.functions, map);
+      scriptUsage.push(this.fileUsage(url, script.text, script.used, map, options.limit));
+    }
+
+    const bySheet = new Map<string, Range[]>();
+    for (const rule of ruleUsage) {
+      const ranges = bySheet.get(rule.styleSheetId) ?? [];
+      if (rule.used) ranges.push({ start: rule.startOffset, end: rule.endOffset });
+      bySheet.set(rule.styleSheetId, ranges);
+    }
+    const sheetUsage: FileUsage[] = [];
+    for (const [styleSheetId, ranges] of bySheet) {
+      let text: string;
+      try {
+        ({ text } = await client.CSS.getStyleSheetText({ styleSheetId }));
+      } catch {
+        continue; // Removed since
+      }
+      const header = this.styles.getSheet(styleSheetId);
+      const url = !header?.sourceURL ? "(constructed stylesheet)"
+        : header.isInline ? `${header.sourceURL} (inline <style>)` : header.sourceURL;
+      const map = header?.sourceURL && !header.isInline ? await this.cdp.sourceMaps.getMap(header.sourceURL) : null;
+      sheetUsage.push(this.fileUsage(url, text, mergeRanges(ranges), map, options.limit));
+    }
+
+    const totals = (files: FileUsage[]) => ({
+      ...byteUsage(
+        files.reduce((sum, f) => sum + f.total_bytes, 0),
+        files.reduce((sum, f) => sum + f.used_bytes, 0),
+      ),
+      files: files.length,
+    });
+    const byUnused = (a: FileUsage, b: FileUsage) => b.unused_bytes - a.unused_bytes;
+
+    return {
+      duration_ms: Date.now() - startedAt,
+      js: totals(scriptUsage),
+      css: css ? totals(sheetUsage) : null,
+      scripts: scriptUsage.sort(byUnused).slice(0, options.limit),
+      stylesheets: sheetUsage.sort(byUnused).slice(0, options.limit),
+    };
+  }
+
+  private fileUsage(url: string, text: string, used: Range[], map: SourceMap | null, limit: number): FileUsage {
+    const usedBytes = used.reduce((sum, r) => sum + (r.end - r.start), 0);
+    const sources = map ? usageBySource(text, used, map).slice(0, limit) : [];
+    return { url, ...byteUsage(text.length, usedBytes), ...(sources.length > 0 && { sources }) };
+  }
+}
+
+export const coverageRecorder = new CoverageRecorder(cdpClient, styleInspector);
@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest";
+import type CDP from "chrome-remote-interface";
+import type { CDPClient } from "./cdp-client.js";
+import { DebuggerManager, formatValue, logpointCondition, urlPattern } from "./debugger.js";
+
+describe("formatValue", () => {
+  it("renders primitives, quoting strings", () => {
+    expect(formatValue({ type: "string", value: "undefined" })).toBe('"undefined"');
+    expect(formatValue({ type: "undefined" })).toBe("undefined");
+    expect(formatValue({ type: "number", value: 42 })).toBe("42");
+    expect(formatValue({ type: "number", unserializableValue: "NaN" })).toBe("NaN");
+    expect(formatValue({ type: "boolean", value: false })).toBe("false");
+    expect(formatValue({ type: "object", subtype: "null", value: null })).toBe("null");
+  });
+
+  it("truncates long strings", () => {
+    const text = formatValue({ type: "string", value: "x".repeat(500) });
+    expect(text.length).toBeLessThan(130);
+    expect(text.endsWith('…"')).toBe(true);
+  });
+
+  it("shows function signatures", () => {
+    expect(formatValue({ type: "function", description: "function onSave(event) {\n  save();\n}" })).toBe("ƒ function onSave(event)");
+  });
+
+  it("renders objects and arrays from their preview", () => {
+    expect(formatValue({
+      type: "object",
+      description: "Object",
+      preview: {
+        type: "object",
+        description: "Object",
+        overflow: true,
+        properties: [
+          { name: "id", type: "number", value: "3" },
+          { name: "name", type: "string", value: "cart" },
+          { name: "items", type: "object", subtype: "array", value: "Array(2)" },
+          { name: "onClick", type: "function", value: "" },
+        ],
+      },
+    })).toBe('{id: 3, name: "cart", items: Array(2), onClick: ƒ, …}');
+
+    expect(formatValue({
+      type: "object",
+      subtype: "array",
+      description: "Array(3)",
+      preview: {
+        type: "object",
+        subtype: "array",
+        description: "Array(3)",
+        overflow: false,
+        properties: [{ name: "0", type: "number", value: "1" }, { name: "1", type: "string", value: "a" }, { name: "2", type: "object", subtype: "null", value: "null" }],
+      },
+    })).toBe('Array(3) [1, "a", null]');
+  });
+
+  it("renders map entries", () => {
+    expect(formatValue({
+      type: "object",
+      subtype: "map",
+      preview: {
+        type: "object",
+        subtype: "map",
+        description: "Map(1)",
+        overflow: false,
+        properties: [],
+        entries: [{ key: { type: "string", description: "a", overflow: false, properties: [] }, value: { type: "number", description: "1", overflow: false, properties: [] } }],
+      },
+    })).toBe('Map(1) {"a" => 1}');
+  });
+
+  it("falls back to the description for nodes and objects without a preview", () => {
+    expect(formatValue({ type: "object", subtype: "node", description: "button#save.primary" })).toBe("button#save.primary");
+    expect(formatValue({ type: "object", className: "Window" })).toBe("Window");
+  });
+});
+
+describe("urlPattern", () => {
+  it("uses full URLs as-is", () => {
+    expect(urlPattern("http://localhost:3000/app.js")).toEqual({ url: "http://localhost:3000/app.js" });
+  });
+
+  it("matches path suffixes wherever the script is served, ignoring query strings", () => {
+    const { urlRegex } = urlPattern("./src/app.js") as { urlRegex: string };
+    const re = new RegExp(urlRegex);
+    expect(re.test("http://localhost:5173/src/app.js?t=123")).toBe(true);
+    expect(re.test("http://localhost:5173/src/app.js")).toBe(true);
+    expect(re.test("http://localhost:5173/src/myapp.js")).toBe(false);
+    expect(re.test("http://localhost:5173/src/app.jsx")).toBe(false);
+  });
+});
+
+describe("logpointCondition", () => {
+  const run = (condition: string, scope: Record<string, unknown>) => {
+    const logged: unknown[][] = [];
+    const console = { log: (...args: unknown[]) => logged.push(args) };
+    const result = new Function("console", ...Object.keys(scope), `return ${condition};`)(console, ...Object.values(scope));
+    return { result, logged };
+  };
+
+  it("logs the tagged expression values and never pauses", () => {
+    expect(run(logpointCondition("lp-1", "item.id, total"), { item: { id: 7 }, total: 19.5 })).toEqual({
+      result: false,
+      logged: [["[logpoint:lp-1]", 7, 19.5]],
+    });
+  });
+
+  it("only logs when its condition holds", () => {
+    const condition = logpointCondition("lp-2", "n", "n > 1");
+    expect(run(condition, { n: 1 }).logged).toEqual([]);
+    expect(run(condition, { n: 2 }).logged).toEqual([["[logpoint:lp-2]", 2]]);
+  });
+
+  it("logs errors from the expression instead of throwing", () => {
+    const { result, logged } = run(logpointCondition("lp-3", "missing.value // trailing comment"), { missing: undefined });
+    expect(result).toBe(false);
+    expect(logged).toEqual([["[logpoint:lp-3]", "threw:", expect.stringContaining("TypeError")]]);
+  });
+});
+
+describe("DebuggerManager", () => {
+  function fakeSession() {
+    const skips: boolean[] = [];
+    const resumes: number[] = [];
+    let nextId = 1;
+    let onPaused: (params: object) => void = () => {};
+    // A pause as Chrome reports it: one frame with nothing in scope
+    const pause = () => onPaused({
+      reason: "other",
+      callFrames: [{ callFrameId: "f0", functionName: "onSave", url: "", location: { lineNumber: 0 }, scopeChain: [], this: { type: "undefined" } }],
+    });
+    const client = {
+      Debugger: {
+        setBreakpointByUrl: async () => ({ breakpointId: `cdp-${nextId++}`, locations: [] }),
+        removeBreakpoint: async () => ({}),
+        setSkipAllPauses: async ({ skip }: { skip: boolean }) => {
+          skips.push(skip);
+        },
+        setPauseOnExceptions: async () => ({}),
+        paused: (handler: (params: object) => void) => {
+          onPaused = handler;
+        },
+        resumed: () => {},
+        breakpointResolved: () => {},
+        resume: async () => {
+          resumes.push(Date.now());
+        },
+        stepOver: async () => {
+          setTimeout(pause, 10);
+        },
+      },
+    };
+    let hook: (client: CDP.Client) => Promise<void> = async () => {};
+    const cdp = {
+      onSession: (h: typeof hook) => {
+        hook = h;
+      },
+      sourceMaps: { findSource: async () => [] },
+    };
+    const manager = new DebuggerManager(cdp as unknown as CDPClient);
+    return { manager, client: client as unknown as CDP.Client, skips, resumes, pause, attach: () => hook(client as unknown as CDP.Client) };
+  }
+
+  it("stops skipping pauses for logpoints, whose conditions would be skipped too", async () => {
+    const { manager, client, skips } = fakeSession();
+    const logpoint = await manager.setBreakpoint(client, { kind: "logpoint", url: "src/app.ts", line: 3, expression: "x" });
+    expect(skips).toEqual([false]);
+
+    await manager.removeBreakpoint(client, "logpoint", logpoint.id);
+    expect(skips.at(-1)).toBe(true);
+  });
+
+  it("resumes stray pauses straight away while only logpoints are set", async () => {
+    const { manager, client, resumes, pause, attach } = fakeSession();
+    await attach();
+    await manager.setBreakpoint(client, { kind: "logpoint", url: "src/app.ts", line: 3, expression: "x" });
+
+    // e.g. a `debugger;` statement
+    pause();
+    expect(resumes).toHaveLength(1);
+    expect(manager.isPaused()).toBe(false);
+
+    await manager.setBreakpoint(client, { url: "src/app.ts", line: 9 });
+    pause();
+    expect(resumes).toHaveLength(1);
+    expect(manager.isPaused()).toBe(true);
+  });
+
+  it("stops skipping pauses when exceptions should pause", async () => {
+    const { manager, client, skips } = fakeSession();
+    await manager.setPauseOnExceptions(client, "uncaught");
+    expect(skips).toEqual([false]);
+  });
+
+  it("returns as soon as a step pauses, even with no breakpoints left", async () => {
+    const { manager, client, pause, attach } = fakeSession();
+    await attach();
+    const breakpoint = await manager.setBreakpoint(client, { url: "src/app.ts", line: 9 });
+    pause();
+    await manager.removeBreakpoint(client, "breakpoint", breakpoint.id);
+
+    const started = Date.now();
+    const state = await manager.step(client, "over", 2000);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(state).toMatchObject({ paused: true, call_stack: [{ function: "onSave" }] });
+  });
+});
@@ -0,0 +1,555 @@
+import type CDP from "chrome-remote-interface";
+import { cdpClient, logpointMarker, type CDPClient } from "./cdp-client.js";
+
+// --- Types ---
+
+export const PAUSE_ON_EXCEPTIONS = ["none", "uncaught", "all"] as const;
+export type PauseOnExceptions = typeof PAUSE_ON_EXCEPTIONS[number];
+
+export const STEP_ACTIONS = ["over", "into", "out"] as const;
+export type StepAction = typeof STEP_ACTIONS[number];
+
+/** Logpoints are breakpoints whose condition logs and never pauses. */
+export type BreakpointKind = "breakpoint" | "logpoint";
+
+export interface SourceLocation {
+  url: string;
+  /** 1-based. */
+  line: number;
+  column: number;
+}
+
+export interface Breakpoint {
+  id: string;
+  kind: BreakpointKind;
+  /** As given: a full URL or a path suffix, of the original source when source-mapped. */
+  url: string;
+  line: number;
+  column?: number;
+  condition?: string;
+  /** What a logpoint logs: one expression or a comma-separated list, like console.log arguments. */
+  expression?: string;
+  /** Where it sits in the code Chrome runs; differs from url/line when set through a source map. */
+  set_at: Array<{ url: string; line: number; column?: number }>;
+  /** Loaded scripts it is bound in. 0 until a matching script loads. */
+  resolved_locations: number;
+}
+
+/** The parts of CDP's Runtime.ObjectPreview we read. */
+export interface ObjectPreviewLike {
+  type: string;
+  subtype?: string;
+  description?: string;
+  overflow: boolean;
+  properties: Array<{ name: string; type: string; subtype?: string; value?: string }>;
+  entries?: Array<{ key?: ObjectPreviewLike; value: ObjectPreviewLike }>;
+}
+
+/** The parts of CDP's Runtime.RemoteObject we read. */
+export interface RemoteObjectLike {
+  type: string;
+  subtype?: string;
+  className?: string;
+  value?: unknown;
+  unserializableValue?: string;
+  description?: string;
+  objectId?: string;
+  preview?: ObjectPreviewLike;
+}
+
+export interface StackFrameInfo {
+  index: number;
+  function: string;
+  location?: SourceLocation;
+}
+
+export interface ScopeInfo {
+  type: string;
+  name?: string;
+  variables: Record<string, string>;
+  /** Variables left out past the per-scope cap. */
+  omitted?: number;
+}
+
+export type PausedState =
+  | { paused: false }
+  | {
+    paused: true;
+    reason: string;
+    /** Ids of our breakpoints that were hit. */
+    breakpoints: string[];
+    exception?: string;
+    call_stack: StackFrameInfo[];
+    frame: number;
+    this?: string;
+    scopes: ScopeInfo[];
+    evaluation?: { expression: string; result?: string; error?: string };
+  };
+
+interface BreakpointEntry extends Omit<Breakpoint, "resolved_locations"> {
+  /** Chrome's ids for this breakpoint in the current session. */
+  cdpIds: string[];
+  resolved: number;
+}
+
+interface Paused {
+  client: CDP.Client;
+  reason: string;
+  data?: Record<string, unknown>;
+  hitBreakpoints: string[];
+  callFrames: Array<{
+    callFrameId: string;
+    functionName: string;
+    url: string;
+    location: { lineNumber: number; columnNumber?: number };
+    scopeChain: Array<{ type: string; name?: string; object: RemoteObjectLike }>;
+    this: RemoteObjectLike;
+  }>;
+}
+
+// --- Config ---
+
+const MAX_STACK_FRAMES = 20;
+const MAX_VARIABLES_PER_SCOPE = 50;
+const MAX_STRING_LENGTH = 120;
+const DEFAULT_STEP_TIMEOUT_MS = 5000;
+
+// --- Formatting ---
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function quote(text: string): string {
+  return JSON.stringify(truncate(text, MAX_STRING_LENGTH));
+}
+
+function previewProperty(p: ObjectPreviewLike["properties"][number]): string {
+  if (p.type === "string") return quote(p.value ?? "");
+  if (p.type === "function") return "ƒ";
+  return p.value ?? p.type;
+}
+
+/** DevTools-style one-line rendering of an object preview, e.g. `{id: 3, name: "x", …}`. */
+export function formatPreview(p: ObjectPreviewLike): string {
+  if (p.type === "string") return quote(p.description ?? "");
+  if (p.type !== "object") return p.description ?? p.type;
+  if (p.subtype === "null") return "null";
+
+  const more = p.overflow ? ", …" : "";
+  if (p.entries) {
+    const entries = p.entries.map((e) => (e.key ? `${formatPreview(e.key)} => ` : "") + formatPreview(e.value));
+    return `${p.description ?? ""} {${entries.join(", ")}${more}}`;
+  }
+  if (p.subtype === "array" || p.subtype === "typedarray") {
+    return `${p.description ?? "Array"} [${p.properties.map(previewProperty).join(", ")}${more}]`;
+  }
+  if (p.subtype === "node" || p.subtype === "error" || p.subtype === "regexp" || p.subtype === "date") {
+    return p.description ?? "Object";
+  }
+  const name = p.description && p.description !== "Object" ? `${p.description} ` : "";
+  return `${name}{${p.properties.map((prop) => `${prop.name}: ${previewProperty(prop)}`).join(", ")}${more}}`;
+}
+
+/** Compact, readable rendering of a remote value. Strings are quoted so `"undefined"` and undefined differ. */
+export function formatValue(obj: RemoteObjectLike): string {
+  switch (obj.type) {
+    case "undefined":
+      return "undefined";
+    case "string":
+      return quote(String(obj.value ?? ""));
+    case "number":
+    case "boolean":
+    case "bigint":
+      return obj.unserializableValue ?? String(obj.value);
+    case "symbol":
+      return obj.description ?? "Symbol()";
+    case "function": {
+      const signature = (obj.description ?? "").split("\n")[0].replace(/\s*\{\s*$/, "");
+      return `ƒ ${truncate(signature, 80)}`;
+    }
+    default:
+      if (obj.subtype === "null") return "null";
+      if (obj.preview) return formatPreview(obj.preview);
+      return obj.description ?? obj.className ?? "Object";
+  }
+}
+
+/**
+ * Breakpoint condition for a logpoint: log through console.log, tagged so the
+ * console buffer can tell it from the page's own output, and never pause.
+ * Errors in the expression are logged rather than swallowed.
+ */
+export function logpointCondition(id: string, expression: string, condition?: string): string {
+  const marker = JSON.stringify(logpointMarker(id));
+  const log = `console.log(${marker}, ${expression}\n)`;
+  const body = condition ? `if (${condition}\n) ${log};` : `${log};`;
+  return `(() => { try { ${body} } catch (e) { console.log(${marker}, "threw:", String(e)); } return false; })()`;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Chrome matches breakpoint URLs exactly; a path like `src/app.js` should match wherever it's served from. */
+export function urlPattern(url: string): { url: string } | { urlRegex: string } {
+  if (url.includes("://")) return { url };
+  const path = url.replace(/^\.?\//, "");
+  return { urlRegex: `(^|/)${escapeRegex(path)}(\\?.*)?$` };
+}
+
+// --- Debugger Manager ---
+
+/**
+ * Breakpoints, logpoints, pause-on-exceptions and the paused call stack.
+ * Breakpoints are kept here and re-set on every session, like mock rules.
+ * Chrome is told to skip all pauses while none are set, so a stray
+ * `debugger;` statement doesn't freeze the page. Logpoints need pauses on
+ * (skipping also skips their conditions), so with only logpoints set any
+ * pause that does happen is resumed straight away.
+ */
+export class DebuggerManager {
+  private breakpoints = new Map<string, BreakpointEntry>();
+  private nextId = 1;
+  private pauseOnExceptions: PauseOnExceptions = "none";
+  private paused: Paused | null = null;
+  private pauseWaiters = new Set<() => void>();
+  /** A step is in flight; the pause it ends in was asked for. */
+  private stepping = false;
+
+  constructor(private cdp: CDPClient) {
+    cdp.onSession((client) => this.attach(client));
+  }
+
+  private async attach(client: CDP.Client): Promise<void> {
+    this.paused = null;
+    for (const entry of this.breakpoints.values()) {
+      entry.cdpIds = [];
+      entry.resolved = 0;
+    }
+
+    client.Debugger.paused((params) => {
+      if (!this.wantsPauses() && !this.stepping) {
+        client.Debugger.resume({}).catch(() => {});
+        return;
+      }
+      this.paused = {
+        client,
+        reason: params.reason,
+        data: params.data,
+        hitBreakpoints: params.hitBreakpoints ?? [],
+        callFrames: params.callFrames as Paused["callFrames"],
+      };
+      for (const wake of this.pauseWaiters) wake();
+    });
+    client.Debugger.resumed(() => {
+      this.paused = null;
+    });
+    client.Debugger.breakpointResolved(({ breakpointId }) => {
+      const entry = Array.from(this.breakpoints.values()).find((e) => e.cdpIds.includes(breakpointId));
+      if (entry) entry.resolved++;
+    });
+
+    if (this.breakpoints.size === 0 && this.pauseOnExceptions === "none") return;
+    await client.Debugger.setPauseOnExceptions({ state: this.pauseOnExceptions });
+    for (const entry of this.breakpoints.values()) {
+      try {
+        await this.place(client, entry);
+      } catch (err) {
+        console.error(`[relay-inspect] Failed to restore breakpoint ${entry.id}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+    await this.applySkip(client);
+  }
+
+  /** Whether Chrome must evaluate breakpoints at all — logpoints included. */
+  private needsPauses(): boolean {
+    return this.breakpoints.size > 0 || this.pauseOnExceptions !== "none";
+  }
+
+  /** Whether anything set here should actually stop execution. */
+  private wantsPauses(): boolean {
+    return this.pauseOnExceptions !== "none" ||
+      Array.from(this.breakpoints.values()).some((e) => e.kind === "breakpoint");
+  }
+
+  private async applySkip(client: CDP.Client): Promise<void> {
+    await client.Debugger.setSkipAllPauses({ skip: !this.needsPauses() });
+  }
+
+  // --- Breakpoints ---
+
+  listBreakpoints(kind: BreakpointKind): Breakpoint[] {
+    return Array.from(this.breakpoints.values())
+      .filter((e) => e.kind === kind)
+      .map((e) => this.describe(e));
+  }
+
+  async setBreakpoint(
+    client: CDP.Client,
+    spec: { kind?: BreakpointKind; url: string; line: number; column?: number; condition?: string; expression?: string },
+  ): Promise<Breakpoint> {
+    const kind = spec.kind ?? "breakpoint";
+    if (kind === "logpoint" && !spec.expression) {
+      throw new Error("A logpoint needs an expression to log");
+    }
+    const entry: BreakpointEntry = {
+      id: `${kind === "logpoint" ? "lp" : "bp"}-${this.nextId++}`,
+      kind,
+      url: spec.url,
+      line: spec.line,
+      ...(spec.column !== undefined && { column: spec.column }),
+      ...(spec.condition && { condition: spec.condition }),
+      ...(kind === "logpoint" && { expression: spec.expression }),
+      set_at: [],
+      cdpIds: [],
+      resolved: 0,
+    };
+    await this.place(client, entry);
+    this.breakpoints.set(entry.id, entry);
+    await this.applySkip(client);
+    return this.describe(entry);
+  }
+
+  /** Remove one breakpoint or logpoint, or all of a kind when no id is given. Returns the removed ids. */
+  async removeBreakpoint(client: CDP.Client, kind: BreakpointKind, id?: string): Promise<string[]> {
+    const ofKind = Array.from(this.breakpoints.values()).filter((e) => e.kind === kind);
+    let entries: BreakpointEntry[];
+    if (id === undefined) {
+      entries = ofKind;
+    } else {
+      const entry = ofKind.find((e) => e.id === id);
+      if (!entry) {
+        const ids = ofKind.map((e) => e.id);
+        throw new Error(`No ${kind} "${id}". ${ids.length > 0 ? `Set: ${ids.join(", ")}` : `No ${kind}s are set.`}`);
+      }
+      entries = [entry];
+    }
+
+    for (const entry of entries) {
+      for (const breakpointId of entry.cdpIds) {
+        await client.Debugger.removeBreakpoint({ breakpointId }).catch(() => {});
+      }
+      this.breakpoints.delete(entry.id);
+    }
+    await this.applySkip(client);
+    return entries.map((e) => e.id);
+  }
+
+  /**
+   * Set the breakpoint in Chrome. Through source maps when a loaded map
+   * contains the URL (one breakpoint per generated script), otherwise by URL.
+   */
+  private async place(client: CDP.Client, entry: BreakpointEntry): Promise<void> {
+    const targets: Array<{ target: { url: string } | { urlRegex: string }; lineNumber: number; columnNumber?: number; label: string }> = [];
+    for (const { scriptUrl, map, source } of await this.cdp.sourceMaps.findSource(entry.url)) {
+      const position = map.generatedPositionFor(source, entry.line - 1, (entry.column ?? 1) - 1);
+      if (position) {
+        targets.push({ target: { url: scriptUrl }, lineNumber: position.line, columnNumber: position.column, label: scriptUrl });
+      }
+    }
+    if (targets.length === 0) {
+      targets.push({
+        target: urlPattern(entry.url),
+        lineNumber: entry.line - 1,
+        ...(entry.column !== undefined && { columnNumber: entry.column - 1 }),
+        label: entry.url,
+      });
+    }
+
+    entry.cdpIds = [];
+    entry.set_at = [];
+    entry.resolved = 0;
+    for (const { target, lineNumber, columnNumber, label } of targets) {
+      const { breakpointId, locations } = await client.Debugger.setBreakpointByUrl({
+        ...target,
+        lineNumber,
+        columnNumber,
+        condition: entry.kind === "logpoint"
+          ? logpointCondition(entry.id, entry.expression ?? "", entry.condition)
+          : entry.condition,
+      });
+      entry.cdpIds.push(breakpointId);
+      entry.set_at.push({ url: label, line: lineNumber + 1, ...(columnNumber !== undefined && { column: columnNumber + 1 }) });
+      entry.resolved += locations.length;
+    }
+  }
+
+  private describe(entry: BreakpointEntry): Breakpoint {
+    const { cdpIds: _cdp, resolved, ...rest } = entry;
+    return { ...rest, resolved_locations: resolved };
+  }
+
+  // --- Exceptions ---
+
+  getPauseOnExceptions(): PauseOnExceptions {
+    return this.pauseOnExceptions;
+  }
+
+  async setPauseOnExceptions(client: CDP.Client, state: PauseOnExceptions): Promise<void> {
+    this.pauseOnExceptions = state;
+    await client.Debugger.setPauseOnExceptions({ state });
+    await this.applySkip(client);
+  }
+
+  // --- Paused State ---
+
+  isPaused(): boolean {
+    return this.paused !== null;
+  }
+
+  /**
+   * Run page work that may hit a breakpoint. The CDP call behind it won't return
+   * while the page is paused, so report the pause instead of hanging.
+   */
+  async untilPaused<T>(work: Promise<T>): Promise<{ paused: false; value: T } | { paused: true }> {
+    if (!this.wantsPauses()) return { paused: false, value: await work };
+    const { pause, cancel } = this.nextPause();
+    try {
+      return await Promise.race([work.then((value) => ({ paused: false as const, value })), pause]);
+    } finally {
+      cancel();
+    }
+  }
+
+  private nextPause(): { pause: Promise<{ paused: true }>; cancel: () => void } {
+    let cancel = () => {};
+    const pause = new Promise<{ paused: true }>((resolve) => {
+      const wake = () => resolve({ paused: true });
+      this.pauseWaiters.add(wake);
+      cancel = () => this.pauseWaiters.delete(wake);
+    });
+    return { pause, cancel };
+  }
+
+  /** Where execution is paused, for messages, e.g. `onSave (src/app.ts:42:5)`. */
+  async pausedAt(): Promise<string | null> {
+    const top = this.paused?.callFrames[0];
+    if (!top) return null;
+    const location = await this.frameLocation(top);
+    const where = location ? `${location.url}:${location.line}:${location.column}` : "unknown location";
+    return `${top.functionName || "(anonymous)"} (${where})`;
+  }
+
+  async getPausedState(
+    client: CDP.Client,
+    options: { frame?: number; expression?: string; includeGlobals?: boolean } = {},
+  ): Promise<PausedState> {
+    const paused = this.paused;
+    if (!paused || paused.client !== client) return { paused: false };
+
+    const frameIndex = options.frame ?? 0;
+    const frame = paused.callFrames[frameIndex];
+    if (!frame) {
+      throw new Error(`No frame ${frameIndex}; the call stack has ${paused.callFrames.length} frames`);
+    }
+
+    const callStack: StackFrameInfo[] = [];
+    for (const [index, f] of paused.callFrames.slice(0, MAX_STACK_FRAMES).entries()) {
+      const location = await this.frameLocation(f);
+      callStack.push({ index, function: f.functionName || "(anonymous)", ...(location && { location }) });
+    }
+
+    const scopes: ScopeInfo[] = [];
+    for (const scope of frame.scopeChain) {
+      if (scope.type === "global" && !options.includeGlobals) continue;
+      if (!scope.object.objectId) continue;
+      scopes.push(await this.describeScope(client, scope));
+    }
+
+    const ids = new Map<string, string>();
+    for (const entry of this.breakpoints.values()) {
+      for (const cdpId of entry.cdpIds) ids.set(cdpId, entry.id);
+    }
+
+    const state: PausedState = {
+      paused: true,
+      reason: paused.reason,
+      breakpoints: paused.hitBreakpoints.map((id) => ids.get(id)).filter((id): id is string => id !== undefined),
+      ...(paused.reason === "exception" || paused.reason === "promiseRejection"
+        ? { exception: formatValue(paused.data as unknown as RemoteObjectLike) }
+        : {}),
+      call_stack: callStack,
+      frame: frameIndex,
+      ...(frame.this.type !== "undefined" && { this: formatValue(frame.this) }),
+      scopes,
+    };
+
+    if (options.expression) {
+      const { result, exceptionDetails } = await client.Debugger.evaluateOnCallFrame({
+        callFrameId: frame.callFrameId,
+        expression: options.expression,
+        generatePreview: true,
+      });
+      state.evaluation = exceptionDetails
+        ? { expression: options.expression, error: exceptionDetails.exception?.description?.split("\n")[0] ?? exceptionDetails.text }
+        : { expression: options.expression, result: formatValue(result) };
+    }
+    return state;
+  }
+
+  async step(client: CDP.Client, action: StepAction, timeoutMs = DEFAULT_STEP_TIMEOUT_MS): Promise<PausedState> {
+    this.assertPaused(client);
+    // Listen directly: the step's own pause counts even when no breakpoints are left
+    const { pause, cancel } = this.nextPause();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<{ paused: false }>((resolve) => {
+      timer = setTimeout(() => resolve({ paused: false }), timeoutMs);
+    });
+
+    this.stepping = true;
+    try {
+      if (action === "over") await client.Debugger.stepOver({});
+      else if (action === "into") await client.Debugger.stepInto({});
+      else await client.Debugger.stepOut();
+      const outcome = await Promise.race([pause, expired]);
+      // Ran to completion (or kept running) without pausing again
+      if (!outcome.paused) return { paused: false };
+    } finally {
+      this.stepping = false;
+      clearTimeout(timer);
+      cancel();
+    }
+    return this.getPausedState(client);
+  }
+
+  async resume(client: CDP.Client): Promise<void> {
+    this.assertPaused(client);
+    await client.Debugger.resume({});
+  }
+
+  private assertPaused(client: CDP.Client): void {
+    if (!this.paused || this.paused.client !== client) {
+      throw new Error("Execution is not paused. Set a breakpoint or enable pause_on_exceptions, then trigger the code.");
+    }
+  }
+
+  private async describeScope(client: CDP.Client, scope: Paused["callFrames"][number]["scopeChain"][number]): Promise<ScopeInfo> {
+    const { result } = await client.Runtime.getProperties({
+      objectId: scope.object.objectId!,
+      ownProperties: true,
+      generatePreview: true,
+    });
+    const variables: Record<string, string> = {};
+    let count = 0;
+    for (const prop of result) {
+      if (count++ >= MAX_VARIABLES_PER_SCOPE) continue;
+      variables[prop.name] = prop.value ? formatValue(prop.value as RemoteObjectLike) : prop.get ? "(getter)" : "undefined";
+    }
+    return {
+      type: scope.type,
+      ...(scope.name && { name: scope.name }),
+      variables,
+      ...(count > MAX_VARIABLES_PER_SCOPE && { omitted: count - MAX_VARIABLES_PER_SCOPE }),
+    };
+  }
+
+  private async frameLocation(frame: Paused["callFrames"][number]): Promise<SourceLocation | undefined> {
+    if (!frame.url) return undefined;
+    const line = frame.location.lineNumber + 1;
+    const column = (frame.location.columnNumber ?? 0) + 1;
+    return (await this.cdp.sourceMaps.resolveLocation(frame.url, line, column)) ?? { url: frame.url, line, column };
+  }
+}
+
+export const debuggerManager = new DebuggerManager(cdpClient);
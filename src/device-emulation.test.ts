@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import type CDP from "chrome-remote-interface";
+import type { CDPClient } from "./cdp-client.js";
+import { DeviceEmulator, mergeEmulation, presetSettings, type DeviceEmulation } from "./device-emulation.js";
+
+const initial: DeviceEmulation = {
+  device: null,
+  viewport: null,
+  device_scale_factor: null,
+  mobile: false,
+  touch: false,
+  user_agent: null,
+  color_scheme: null,
+  reduced_motion: null,
+  timezone: null,
+  locale: null,
+  geolocation: null,
+};
+
+describe("mergeEmulation", () => {
+  it("applies a device preset", () => {
+    const next = mergeEmulation(initial, { device: "iphone_se" });
+    expect(next).toMatchObject({
+      device: "iphone_se",
+      viewport: { width: 375, height: 667 },
+      device_scale_factor: 2,
+      mobile: true,
+      touch: true,
+    });
+    expect(next.user_agent).toMatch(/iPhone/);
+  });
+
+  it("switches to custom when a preset is edited", () => {
+    const phone = mergeEmulation(initial, { device: "pixel_7" });
+    const rotated = mergeEmulation(phone, { width: 915, height: 412 });
+    expect(rotated).toMatchObject({ device: "custom", viewport: { width: 915, height: 412 }, mobile: true, device_scale_factor: 2.625 });
+  });
+
+  it("requires a full viewport the first time", () => {
+    expect(() => mergeEmulation(initial, { width: 800 })).toThrow(/both width and height/);
+    expect(mergeEmulation(initial, { width: 800, height: 600 }).viewport).toEqual({ width: 800, height: 600 });
+  });
+
+  it("keeps environment settings independent of the device and clears them with null", () => {
+    const dark = mergeEmulation(initial, { color_scheme: "dark", timezone: "Asia/Tokyo", geolocation: { latitude: 35.68, longitude: 139.69 } });
+    expect(dark.geolocation).toEqual({ latitude: 35.68, longitude: 139.69, accuracy: 100 });
+
+    const withDevice = mergeEmulation(dark, { device: "desktop" });
+    expect(withDevice).toMatchObject({ color_scheme: "dark", timezone: "Asia/Tokyo" });
+
+    const cleared = mergeEmulation(withDevice, { color_scheme: null, geolocation: null });
+    expect(cleared).toMatchObject({ color_scheme: null, geolocation: null, timezone: "Asia/Tokyo" });
+  });
+
+  it("does not share preset objects between calls", () => {
+    const a = presetSettings("ipad_mini");
+    a.viewport!.width = 1;
+    expect(presetSettings("ipad_mini").viewport!.width).toBe(768);
+  });
+});
+
+describe("DeviceEmulator", () => {
+  function fakeEmulator() {
+    const timezones: string[] = [];
+    const ok = async () => ({});
+    const client = {
+      Emulation: {
+        clearDeviceMetricsOverride: ok,
+        setDeviceMetricsOverride: ok,
+        setTouchEmulationEnabled: ok,
+        setUserAgentOverride: ok,
+        setEmulatedMedia: ok,
+        setLocaleOverride: ok,
+        clearGeolocationOverride: ok,
+        setTimezoneOverride: async ({ timezoneId }: { timezoneId: string }) => {
+          if (timezoneId === "Mars/Olympus_Mons") throw new Error("Invalid timezone ID");
+          timezones.push(timezoneId);
+          return {};
+        },
+      },
+      Browser: { getVersion: async () => ({ userAgent: "Chrome" }) },
+    };
+    const cdp = { onSession: () => {}, getClient: () => client as unknown as CDP.Client };
+    return { emulator: new DeviceEmulator(cdp as unknown as CDPClient), timezones };
+  }
+
+  it("keeps the previous state when Chrome rejects an update", async () => {
+    const { emulator, timezones } = fakeEmulator();
+    await emulator.update({ timezone: "Europe/Berlin" });
+
+    await expect(emulator.update({ timezone: "Mars/Olympus_Mons" })).rejects.toThrow(/Invalid timezone/);
+    expect(emulator.getState().timezone).toBe("Europe/Berlin");
+    // The previous state was pushed back
+    expect(timezones.at(-1)).toBe("Europe/Berlin");
+
+    const next = await emulator.update({ color_scheme: "dark" });
+    expect(next).toMatchObject({ timezone: "Europe/Berlin", color_scheme: "dark" });
+  });
+});
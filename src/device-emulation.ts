@@ -0,0 +1,243 @@
+import type CDP from "chrome-remote-interface";
+import { cdpClient, type CDPClient } from "./cdp-client.js";
+
+// --- Types ---
+
+export const DEVICE_PRESETS = [
+  "iphone_se",
+  "iphone_15",
+  "iphone_15_pro_max",
+  "pixel_7",
+  "galaxy_s20",
+  "ipad_mini",
+  "ipad_pro",
+  "laptop",
+  "desktop",
+] as const;
+export type DevicePreset = typeof DEVICE_PRESETS[number];
+
+export const COLOR_SCHEMES = ["light", "dark"] as const;
+export const REDUCED_MOTION = ["reduce", "no-preference"] as const;
+
+export interface Geolocation {
+  latitude: number;
+  longitude: number;
+  /** Meters (default 100). */
+  accuracy: number;
+}
+
+export interface DeviceEmulation {
+  /** Preset the device settings came from, "custom" once edited, or null when not emulating a device. */
+  device: DevicePreset | "custom" | null;
+  viewport: { width: number; height: number } | null;
+  device_scale_factor: number | null;
+  mobile: boolean;
+  touch: boolean;
+  user_agent: string | null;
+  color_scheme: typeof COLOR_SCHEMES[number] | null;
+  reduced_motion: typeof REDUCED_MOTION[number] | null;
+  /** IANA zone, e.g. "Asia/Tokyo". */
+  timezone: string | null;
+  /** BCP 47 tag, e.g. "de-DE". */
+  locale: string | null;
+  geolocation: Geolocation | null;
+}
+
+/** `null` clears a setting; `undefined` leaves it unchanged. */
+export interface DeviceEmulationUpdate {
+  device?: DevicePreset;
+  width?: number;
+  height?: number;
+  device_scale_factor?: number;
+  mobile?: boolean;
+  touch?: boolean;
+  user_agent?: string | null;
+  color_scheme?: typeof COLOR_SCHEMES[number] | null;
+  reduced_motion?: typeof REDUCED_MOTION[number] | null;
+  timezone?: string | null;
+  locale?: string | null;
+  geolocation?: { latitude: number; longitude: number; accuracy?: number } | null;
+}
+
+type DeviceSettings = Pick<DeviceEmulation, "viewport" | "device_scale_factor" | "mobile" | "touch" | "user_agent">;
+
+// --- Presets ---
+
+const IOS_UA = "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1";
+const IPAD_UA = "Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1";
+const ANDROID_UA = (model: string) =>
+  `Mozilla/5.0 (Linux; Android 14; ${model}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36`;
+
+function phone(width: number, height: number, dpr: number, userAgent: string): DeviceSettings {
+  return { viewport: { width, height }, device_scale_factor: dpr, mobile: true, touch: true, user_agent: userAgent };
+}
+
+function desktop(width: number, height: number): DeviceSettings {
+  return { viewport: { width, height }, device_scale_factor: 1, mobile: false, touch: false, user_agent: null };
+}
+
+/** Viewports in CSS pixels, as in the DevTools device toolbar. */
+const PRESETS: Record<DevicePreset, DeviceSettings> = {
+  iphone_se: phone(375, 667, 2, IOS_UA),
+  iphone_15: phone(393, 852, 3, IOS_UA),
+  iphone_15_pro_max: phone(430, 932, 3, IOS_UA),
+  pixel_7: phone(412, 915, 2.625, ANDROID_UA("Pixel 7")),
+  galaxy_s20: phone(360, 800, 3, ANDROID_UA("SM-G981B")),
+  ipad_mini: phone(768, 1024, 2, IPAD_UA),
+  ipad_pro: phone(1024, 1366, 2, IPAD_UA),
+  laptop: desktop(1366, 768),
+  desktop: desktop(1920, 1080),
+};
+
+const DEFAULT_EMULATION: DeviceEmulation = {
+  device: null,
+  viewport: null,
+  device_scale_factor: null,
+  mobile: false,
+  touch: false,
+  user_agent: null,
+  color_scheme: null,
+  reduced_motion: null,
+  timezone: null,
+  locale: null,
+  geolocation: null,
+};
+
+export function presetSettings(preset: DevicePreset): DeviceSettings {
+  const settings = PRESETS[preset];
+  return { ...settings, viewport: settings.viewport && { ...settings.viewport } };
+}
+
+/** Merge an update into the current state (pure; see DeviceEmulator.update). */
+export function mergeEmulation(current: DeviceEmulation, update: DeviceEmulationUpdate): DeviceEmulation {
+  const next: DeviceEmulation = { ...current };
+
+  if (update.device !== undefined) {
+    Object.assign(next, presetSettings(update.device), { device: update.device });
+  }
+
+  const deviceEdited = update.width !== undefined || update.height !== undefined ||
+    update.device_scale_factor !== undefined || update.mobile !== undefined || update.touch !== undefined;
+  if (deviceEdited) {
+    if (update.width !== undefined || update.height !== undefined) {
+      const width = update.width ?? next.viewport?.width;
+      const height = update.height ?? next.viewport?.height;
+      if (width === undefined || height === undefined) {
+        throw new Error("Give both width and height (or a device preset) the first time you set a viewport");
+      }
+      next.viewport = { width, height };
+    }
+    next.device_scale_factor = update.device_scale_factor ?? next.device_scale_factor;
+    next.mobile = update.mobile ?? next.mobile;
+    next.touch = update.touch ?? next.touch;
+    next.device = "custom";
+  }
+
+  if (update.user_agent !== undefined) next.user_agent = update.user_agent;
+  if (update.color_scheme !== undefined) next.color_scheme = update.color_scheme;
+  if (update.reduced_motion !== undefined) next.reduced_motion = update.reduced_motion;
+  if (update.timezone !== undefined) next.timezone = update.timezone;
+  if (update.locale !== undefined) next.locale = update.locale;
+  if (update.geolocation !== undefined) {
+    next.geolocation = update.geolocation && { accuracy: 100, ...update.geolocation };
+  }
+  return next;
+}
+
+// --- Device Emulator ---
+
+/**
+ * Viewport, device, media feature, locale and location emulation for the
+ * inspected page. Like NetworkEmulator, the desired state lives here and is
+ * re-applied on every session so it survives reconnects and target switches.
+ */
+export class DeviceEmulator {
+  private state: DeviceEmulation = { ...DEFAULT_EMULATION };
+
+  constructor(private cdp: CDPClient) {
+    // Applying defaults would still pin the UA, so leave untouched sessions alone
+    cdp.onSession((client) => (this.isActive() ? this.apply(client, this.state) : undefined));
+  }
+
+  getState(): DeviceEmulation {
+    return { ...this.state };
+  }
+
+  /** Whether anything differs from the browser's own defaults. */
+  isActive(): boolean {
+    return Object.entries(this.state).some(([key, value]) => value !== DEFAULT_EMULATION[key as keyof DeviceEmulation]);
+  }
+
+  async update(update: DeviceEmulationUpdate): Promise<DeviceEmulation> {
+    return this.commit(mergeEmulation(this.state, update));
+  }
+
+  async reset(): Promise<DeviceEmulation> {
+    return this.commit({ ...DEFAULT_EMULATION });
+  }
+
+  /**
+   * Keep `next` only once Chrome has accepted it. It rejects e.g. unknown
+   * timezones, and a bad value kept here would fail every later update and
+   * reconnect, so on error the previous state is pushed back.
+   */
+  private async commit(next: DeviceEmulation): Promise<DeviceEmulation> {
+    const client = this.cdp.getClient();
+    if (client) {
+      try {
+        await this.apply(client, next);
+      } catch (err) {
+        await this.apply(client, this.state).catch(() => {});
+        throw err;
+      }
+    }
+    this.state = next;
+    return this.getState();
+  }
+
+  /** Push the full state; empty strings and clear* calls restore browser defaults. */
+  private async apply(client: CDP.Client, s: DeviceEmulation): Promise<void> {
+
+    if (s.viewport) {
+      await client.Emulation.setDeviceMetricsOverride({
+        width: s.viewport.width,
+        height: s.viewport.height,
+        deviceScaleFactor: s.device_scale_factor ?? 0,
+        mobile: s.mobile,
+      });
+    } else {
+      await client.Emulation.clearDeviceMetricsOverride();
+    }
+
+    await client.Emulation.setTouchEmulationEnabled({ enabled: s.touch, ...(s.touch && { maxTouchPoints: 5 }) });
+
+    // There's no "clear" for the UA override; setting the browser's own UA is equivalent
+    const userAgent = s.user_agent ?? (await client.Browser.getVersion()).userAgent;
+    await client.Emulation.setUserAgentOverride({
+      userAgent,
+      ...(s.locale && { acceptLanguage: s.locale }),
+    });
+
+    await client.Emulation.setEmulatedMedia({
+      features: [
+        { name: "prefers-color-scheme", value: s.color_scheme ?? "" },
+        { name: "prefers-reduced-motion", value: s.reduced_motion ?? "" },
+      ],
+    });
+    await client.Emulation.setTimezoneOverride({ timezoneId: s.timezone ?? "" });
+    await client.Emulation.setLocaleOverride({ locale: s.locale ?? "" });
+
+    if (s.geolocation) {
+      await client.Emulation.setGeolocationOverride(s.geolocation);
+      try {
+        await client.Browser.grantPermissions({ permissions: ["geolocation"] });
+      } catch {
+        // Not allowed on some connections (e.g. page-only CDP_WS_URL targets); the page may prompt instead
+      }
+    } else {
+      await client.Emulation.clearGeolocationOverride();
+    }
+  }
+}
+
+export const deviceEmulator = new DeviceEmulator(cdpClient);
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_DROPPED_ATTRIBUTES, pruneNode, type DomNodeLike } from "./dom-snapshot.js";
+
+let nextId = 1;
+
+function el(name: string, attributes: string[] = [], children?: DomNodeLike[]): DomNodeLike {
+  return { nodeType: 1, nodeName: name.toUpperCase(), backendNodeId: nextId++, attributes, children, childNodeCount: children?.length ?? 0 };
+}
+
+function text(value: string): DomNodeLike {
+  return { nodeType: 3, nodeName: "#text", backendNodeId: nextId++, nodeValue: value };
+}
+
+const options = { depth: 3, textLength: 20, dropAttributes: DEFAULT_DROPPED_ATTRIBUTES };
+
+describe("pruneNode", () => {
+  it("keeps refs, tags, own text and useful attributes", () => {
+    const button = el("button", ["type", "submit", "style", "color: red", "class", "btn primary"], [text("  Save\n  changes ")]);
+    expect(pruneNode(button, options)).toEqual({
+      ref: button.backendNodeId,
+      tag: "button",
+      attributes: { type: "submit", class: "btn primary" },
+      text: "Save changes",
+    });
+  });
+
+  it("truncates long text and attribute values such as data URIs", () => {
+    const img = el("img", ["src", `data:image/png;base64,${"A".repeat(500)}`]);
+    const p = el("p", [], [text("x".repeat(50))]);
+    expect(pruneNode(img, options).attributes?.src).toBe("data:image/png;base6…");
+    expect(pruneNode(p, options).text).toBe(`${"x".repeat(20)}…`);
+  });
+
+  it("drops attributes by prefix", () => {
+    const div = el("div", ["data-testid", "card", "data-state", "open", "id", "card-1"]);
+    expect(pruneNode(div, { ...options, dropAttributes: ["data-*"] }).attributes).toEqual({ id: "card-1" });
+  });
+
+  it("caps depth and counts what was left out", () => {
+    const tree = el("ul", [], [el("li", [], [el("a", [], [text("One")])]), el("li")]);
+    const pruned = pruneNode(tree, { ...options, depth: 1 });
+    expect(pruned.children?.map((c) => c.tag)).toEqual(["li", "li"]);
+    expect(pruned.children?.[0].omitted_children).toBe(1);
+    expect(pruned.children?.[1].omitted_children).toBeUndefined();
+  });
+
+  it("uses childNodeCount when children weren't fetched", () => {
+    const node: DomNodeLike = { nodeType: 1, nodeName: "SECTION", backendNodeId: 99, childNodeCount: 4 };
+    expect(pruneNode(node, { ...options, depth: 0 }).omitted_children).toBe(4);
+  });
+
+  it("collapses inline SVG contents", () => {
+    const svg = el("svg", ["viewBox", "0 0 24 24"], [el("path", ["d", "M0 0L24 24"]), el("path")]);
+    expect(pruneNode(svg, options)).toMatchObject({ tag: "svg", omitted_children: 2 });
+    expect(pruneNode(svg, options).children).toBeUndefined();
+  });
+});
@@ -0,0 +1,168 @@
+import type CDP from "chrome-remote-interface";
+
+// --- Types ---
+
+/** The parts of CDP's DOM.Node we read. */
+export interface DomNodeLike {
+  nodeType: number;
+  nodeName: string;
+  backendNodeId: number;
+  nodeValue?: string;
+  attributes?: string[];
+  childNodeCount?: number;
+  children?: DomNodeLike[];
+}
+
+export interface SnapshotOptions {
+  /** Element levels below each match to include. */
+  depth: number;
+  /** Truncate text content and attribute values to this many characters. */
+  textLength: number;
+  /** Attribute names to drop; a trailing `*` matches a prefix (e.g. `data-*`). */
+  dropAttributes: string[];
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SnapshotNode {
+  /** Stable node reference (backend node id), accepted by tools taking `ref`. */
+  ref: number;
+  tag: string;
+  attributes?: Record<string, string>;
+  /** The element's own text, truncated. */
+  text?: string;
+  children?: SnapshotNode[];
+  /** Children not shown because of the depth cap (or collapsed SVG). */
+  omitted_children?: number;
+  /** Page coordinates of the border box; absent when not rendered. */
+  box?: Box;
+  visible?: boolean;
+}
+
+// --- Config ---
+
+export const DEFAULT_DROPPED_ATTRIBUTES = ["style", "srcset", "sizes", "d", "integrity", "nonce", "data-reactid"];
+/** Bounding boxes are looked up per node, so cap how many we ask for. */
+const MAX_BOXED_NODES = 200;
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+// --- Pruning ---
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function dropped(name: string, patterns: string[]): boolean {
+  return patterns.some((p) => (p.endsWith("*") ? name.startsWith(p.slice(0, -1)) : name === p));
+}
+
+/**
+ * Turn a described DOM subtree into a compact snapshot: elements only, own
+ * text collapsed and truncated, noisy attributes removed and SVG contents
+ * summarized. Boxes are filled in separately by addBoxes.
+ */
+export function pruneNode(node: DomNodeLike, options: SnapshotOptions, level = 0): SnapshotNode {
+  const result: SnapshotNode = { ref: node.backendNodeId, tag: node.nodeName.toLowerCase() };
+
+  const attrs = node.attributes ?? [];
+  const kept: Record<string, string> = {};
+  for (let i = 0; i < attrs.length; i += 2) {
+    if (dropped(attrs[i], options.dropAttributes)) continue;
+    kept[attrs[i]] = truncate(attrs[i + 1], options.textLength);
+  }
+  if (Object.keys(kept).length > 0) result.attributes = kept;
+
+  const children = node.children ?? [];
+  const ownText = children
+    .filter((c) => c.nodeType === TEXT_NODE)
+    .map((c) => c.nodeValue ?? "")
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (ownText) result.text = truncate(ownText, options.textLength);
+
+  const elements = children.filter((c) => c.nodeType === ELEMENT_NODE);
+  const elementCount = node.children !== undefined ? elements.length : (node.childNodeCount ?? 0);
+  // Inline SVG paths are pure noise for reading a page
+  if (result.tag === "svg" || level >= options.depth) {
+    if (elementCount > 0) result.omitted_children = elementCount;
+    return result;
+  }
+
+  if (elements.length > 0) {
+    result.children = elements.map((c) => pruneNode(c, options, level + 1));
+  }
+  return result;
+}
+
+function* walk(node: SnapshotNode): Generator<SnapshotNode> {
+  yield node;
+  for (const child of node.children ?? []) yield* walk(child);
+}
+
+/** Attach border boxes and visibility in document order, up to MAX_BOXED_NODES. Returns how many were skipped. */
+export async function addBoxes(client: CDP.Client, roots: SnapshotNode[]): Promise<number> {
+  const all = roots.flatMap((r) => Array.from(walk(r)));
+  for (const node of all.slice(0, MAX_BOXED_NODES)) {
+    try {
+      const { model } = await client.DOM.getBoxModel({ backendNodeId: node.ref });
+      const xs = [model.border[0], model.border[2], model.border[4], model.border[6]];
+      const ys = [model.border[1], model.border[3], model.border[5], model.border[7]];
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      node.box = {
+        x: Math.round(x),
+        y: Math.round(y),
+        width: Math.round(Math.max(...xs) - x),
+        height: Math.round(Math.max(...ys) - y),
+      };
+      node.visible = node.box.width > 0 && node.box.height > 0;
+    } catch {
+      // No layout object: display:none, or not in the document
+      node.visible = false;
+    }
+  }
+  return Math.max(0, all.length - MAX_BOXED_NODES);
+}
+
+/** Snapshot every element matching `selector`, up to `limit` roots. */
+export async function snapshotElements(
+  client: CDP.Client,
+  selector: string,
+  limit: number,
+  options: SnapshotOptions,
+): Promise<{ total_matches: number; elements: SnapshotNode[]; boxes_skipped: number }> {
+  const doc = await client.DOM.getDocument({ depth: 0 });
+  const { nodeIds } = await client.DOM.querySelectorAll({ nodeId: doc.root.nodeId, selector });
+
+  const elements: SnapshotNode[] = [];
+  for (const nodeId of nodeIds.slice(0, limit)) {
+    try {
+      // describeNode counts text nodes as depth too, so ask one level deeper
+      const { node } = await client.DOM.describeNode({ nodeId, depth: options.depth + 1 });
+      elements.push(pruneNode(node as DomNodeLike, options));
+    } catch {
+      // Node removed between query and describe
+    }
+  }
+
+  const skipped = await addBoxes(client, elements);
+  return { total_matches: nodeIds.length, elements, boxes_skipped: skipped };
+}
+
+// --- Refs ---
+
+/** Resolve a snapshot ref to a remote object id, with a useful error when the node is gone. */
+export async function resolveRef(client: CDP.Client, ref: number, objectGroup?: string): Promise<string> {
+  try {
+    const { object } = await client.DOM.resolveNode({ backendNodeId: ref, objectGroup });
+    if (object.objectId) return object.objectId;
+  } catch { /* fall through */ }
+  throw new Error(`Node ref ${ref} no longer exists (the page changed or navigated). Take a new snapshot with get_elements.`);
+}
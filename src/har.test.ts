@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import type { NetworkEntry } from "./cdp-client.js";
+import { buildHar } from "./har.js";
+
+function request(overrides: Partial<NetworkEntry>): NetworkEntry {
+  return {
+    id: "1",
+    url: "http://localhost:3000/api/users?page=2",
+    method: "GET",
+    status: 200,
+    timing_ms: 42,
+    error: null,
+    timestamp: "2025-01-01T00:00:00.000Z",
+    target_id: null,
+    state: "complete",
+    resource_type: "Fetch",
+    mime_type: "application/json",
+    encoded_size: 512,
+    request_headers: { Accept: "application/json", Authorization: "Bearer secret", Cookie: "sid=abc; theme=dark" },
+    response_headers: { "Content-Type": "application/json", "Set-Cookie": "sid=def; HttpOnly" },
+    redirect_chain: [],
+    initiator: null,
+    ...overrides,
+  };
+}
+
+describe("buildHar", () => {
+  it("produces a HAR 1.2 log with query strings and timing", () => {
+    const har = buildHar([request({})], { creatorVersion: "1.0.0", redact: false });
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.creator).toEqual({ name: "relay-inspect", version: "1.0.0" });
+
+    const [entry] = har.log.entries;
+    expect(entry.time).toBe(42);
+    expect(entry.request.queryString).toEqual([{ name: "page", value: "2" }]);
+    expect(entry.response).toMatchObject({ status: 200, bodySize: 512, content: { mimeType: "application/json", size: -1 } });
+    expect(entry._resourceType).toBe("Fetch");
+  });
+
+  it("redacts credentials by default", () => {
+    const [entry] = buildHar([request({})], { creatorVersion: "1", redact: true }).log.entries;
+    const header = (name: string) => entry.request.headers.find((h) => h.name === name)?.value;
+    expect(header("Authorization")).toBe("[REDACTED]");
+    expect(header("Cookie")).toBe("[REDACTED]");
+    expect(header("Accept")).toBe("application/json");
+    expect(entry.request.cookies).toEqual([{ name: "sid", value: "[REDACTED]" }, { name: "theme", value: "[REDACTED]" }]);
+    expect(entry.response.cookies).toEqual([{ name: "sid", value: "[REDACTED]" }]);
+    expect(entry.response.headers.find((h) => h.name === "Set-Cookie")?.value).toBe("[REDACTED]");
+  });
+
+  it("keeps credentials when redaction is off", () => {
+    const [entry] = buildHar([request({})], { creatorVersion: "1", redact: false }).log.entries;
+    expect(entry.request.cookies).toEqual([{ name: "sid", value: "abc" }, { name: "theme", value: "dark" }]);
+  });
+
+  it("expands redirect chains and skips in-flight requests", () => {
+    const har = buildHar([
+      request({ url: "https://example.com/final", redirect_chain: [{ url: "http://example.com/", status: 301 }] }),
+      request({ id: "2", state: "pending", status: null }),
+    ], { creatorVersion: "1", redact: true });
+
+    expect(har.log.entries.map((e) => [e.request.url, e.response.status, e.response.redirectURL])).toEqual([
+      ["http://example.com/", 301, "https://example.com/final"],
+      ["https://example.com/final", 200, ""],
+    ]);
+  });
+
+  it("includes fetched bodies and network errors", () => {
+    const har = buildHar([
+      request({ method: "POST" }),
+      request({ id: "2", state: "failed", status: null, error: "net::ERR_CONNECTION_REFUSED" }),
+    ], {
+      creatorVersion: "1",
+      redact: true,
+      bodies: {
+        response: new Map([["1", { text: "eyJvayI6dHJ1ZX0=", base64Encoded: true }]]),
+        request: new Map([["1", "{\"name\":\"x\"}"]]),
+      },
+    });
+
+    const [ok, failed] = har.log.entries;
+    expect(ok.response.content).toMatchObject({ text: "eyJvayI6dHJ1ZX0=", encoding: "base64", size: 11 });
+    expect(ok.request.postData?.text).toBe("{\"name\":\"x\"}");
+    expect(failed.response.status).toBe(0);
+    expect(failed._error).toBe("net::ERR_CONNECTION_REFUSED");
+  });
+});
@@ -0,0 +1,210 @@
+import type { NetworkEntry } from "./cdp-client.js";
+
+// --- Types (HAR 1.2 subset) ---
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string; encoding?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _resourceType?: string;
+  _error?: string;
+}
+
+export interface Har {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    pages: [];
+    entries: HarEntry[];
+  };
+}
+
+/** Bodies fetched from the browser, keyed by request id. */
+export interface HarBodies {
+  response: Map<string, { text: string; base64Encoded: boolean }>;
+  request: Map<string, string>;
+}
+
+export interface HarOptions {
+  creatorVersion: string;
+  redact: boolean;
+  bodies?: HarBodies;
+}
+
+// --- Redaction ---
+
+/** Headers whose values are credentials — replaced unless redaction is turned off. */
+const SECRET_HEADERS = new Set(["authorization", "proxy-authorization", "cookie", "set-cookie"]);
+const REDACTED = "[REDACTED]";
+
+function toNameValues(headers: Record<string, string> | null, redact: boolean): HarNameValue[] {
+  if (!headers) return [];
+  return Object.entries(headers).map(([name, value]) => ({
+    name,
+    value: redact && SECRET_HEADERS.has(name.toLowerCase()) ? REDACTED : value,
+  }));
+}
+
+function findHeader(headers: Record<string, string> | null, name: string): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key !== undefined ? headers[key] : undefined;
+}
+
+function parseCookies(header: string | undefined, redact: boolean): HarNameValue[] {
+  if (!header) return [];
+  return header.split(/;\s*/).filter(Boolean).map((pair) => {
+    const eq = pair.indexOf("=");
+    const name = eq === -1 ? pair : pair.slice(0, eq);
+    const value = eq === -1 ? "" : pair.slice(eq + 1);
+    return { name, value: redact ? REDACTED : value };
+  });
+}
+
+/** Set-Cookie headers arrive newline-joined; each line's first pair is the cookie. */
+function parseSetCookies(header: string | undefined, redact: boolean): HarNameValue[] {
+  if (!header) return [];
+  return header.split("\n").flatMap((line) => parseCookies(line.split(";")[0], redact));
+}
+
+function queryString(url: string): HarNameValue[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+// --- Build ---
+
+/**
+ * Serialize captured requests as HAR 1.2. Requests still in flight are
+ * skipped; redirect hops become their own entries pointing at the next URL.
+ */
+export function buildHar(entries: NetworkEntry[], options: HarOptions): Har {
+  const harEntries: HarEntry[] = [];
+  for (const entry of entries) {
+    if (entry.state === "pending") continue;
+    harEntries.push(...toHarEntries(entry, options));
+  }
+
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "relay-inspect", version: options.creatorVersion },
+      pages: [],
+      entries: harEntries,
+    },
+  };
+}
+
+function toHarEntries(entry: NetworkEntry, { redact, bodies }: HarOptions): HarEntry[] {
+  const requestHeaders = toNameValues(entry.request_headers, redact);
+  const requestCookies = parseCookies(findHeader(entry.request_headers, "cookie"), redact);
+
+  // Earlier hops: we only know their URL and status
+  const hops = entry.redirect_chain.map((hop, i): HarEntry => {
+    const next = entry.redirect_chain[i + 1]?.url ?? entry.url;
+    return {
+      startedDateTime: entry.timestamp,
+      time: 0,
+      request: {
+        method: entry.method,
+        url: hop.url,
+        httpVersion: "",
+        cookies: requestCookies,
+        headers: requestHeaders,
+        queryString: queryString(hop.url),
+        headersSize: -1,
+        bodySize: -1,
+      },
+      response: {
+        status: hop.status,
+        statusText: "",
+        httpVersion: "",
+        cookies: [],
+        headers: [{ name: "Location", value: next }],
+        content: { size: 0, mimeType: "" },
+        redirectURL: next,
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: { send: 0, wait: 0, receive: 0 },
+    };
+  });
+
+  const time = entry.timing_ms ?? 0;
+  const postData = bodies?.request.get(entry.id);
+  const body = bodies?.response.get(entry.id);
+  const mimeType = entry.mime_type ?? "";
+
+  const final: HarEntry = {
+    startedDateTime: entry.timestamp,
+    time,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion: "",
+      cookies: requestCookies,
+      headers: requestHeaders,
+      queryString: queryString(entry.url),
+      ...(postData !== undefined && {
+        postData: { mimeType: findHeader(entry.request_headers, "content-type") ?? "", text: postData },
+      }),
+      headersSize: -1,
+      bodySize: postData !== undefined ? Buffer.byteLength(postData) : -1,
+    },
+    response: {
+      status: entry.status ?? 0,
+      statusText: "",
+      httpVersion: "",
+      cookies: parseSetCookies(findHeader(entry.response_headers, "set-cookie"), redact),
+      headers: toNameValues(entry.response_headers, redact),
+      content: {
+        size: body ? Buffer.byteLength(body.text, body.base64Encoded ? "base64" : "utf-8") : -1,
+        mimeType,
+        ...(body && { text: body.text }),
+        ...(body?.base64Encoded && { encoding: "base64" }),
+      },
+      redirectURL: "",
+      headersSize: -1,
+      bodySize: entry.encoded_size ?? -1,
+    },
+    cache: {},
+    // CDP's summary timing doesn't split phases — attribute it all to waiting
+    timings: { send: 0, wait: time, receive: 0 },
+    ...(entry.resource_type && { _resourceType: entry.resource_type }),
+    ...(entry.error && { _error: entry.error }),
+  };
+
+  return [...hops, final];
+}
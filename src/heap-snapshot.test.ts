@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { compareHeapSummaries, summarizeHeapSnapshot, topConstructors, type HeapSnapshotLike, type HeapSummary } from "./heap-snapshot.js";
+
+const NODE_TYPES = ["hidden", "array", "string", "object", "code", "closure", "regexp", "number", "native", "synthetic"];
+const EDGE_TYPES = ["context", "element", "property", "internal", "hidden", "shortcut", "weak"];
+const [OBJECT, NATIVE, SYNTHETIC] = [3, 8, 9];
+const [ELEMENT, PROPERTY, WEAK] = [1, 2, 6];
+const NODE_FIELDS = 6;
+
+/**
+ *   root ──> A(10) ──> A(7)
+ *     │        └──────> C(5) <── B(20) ──> detached div(50)
+ *     └──────────────────────────┘   └ weak ─> D(100)
+ */
+function fixture(withDetachedness = true): HeapSnapshotLike {
+  const strings = ["", "(root)", "A", "B", "C", "D", withDetachedness ? "HTMLDivElement" : "Detached HTMLDivElement"];
+  // type, name, id, self_size, edge_count, detachedness
+  const nodes = [
+    SYNTHETIC, 1, 1, 0, 2, 0,
+    OBJECT, 2, 3, 10, 2, 0,
+    OBJECT, 3, 5, 20, 3, 0,
+    OBJECT, 4, 7, 5, 0, 0,
+    OBJECT, 2, 9, 7, 0, 0,
+    OBJECT, 5, 11, 100, 0, 0,
+    NATIVE, 6, 13, 50, 0, withDetachedness ? 2 : 0,
+  ];
+  const to = (node: number) => node * NODE_FIELDS;
+  // type, name_or_index, to_node
+  const edges = [
+    PROPERTY, 0, to(1), PROPERTY, 0, to(2),
+    PROPERTY, 0, to(3), PROPERTY, 0, to(4),
+    PROPERTY, 0, to(3), WEAK, 0, to(5), ELEMENT, 0, to(6),
+  ];
+  return {
+    snapshot: {
+      meta: {
+        node_fields: ["type", "name", "id", "self_size", "edge_count", "detachedness"],
+        node_types: [NODE_TYPES],
+        edge_fields: ["type", "name_or_index", "to_node"],
+        edge_types: [EDGE_TYPES],
+      },
+    },
+    nodes,
+    edges,
+    strings,
+  };
+}
+
+describe("summarizeHeapSnapshot", () => {
+  it("totals reachable objects, skipping ones only held weakly", () => {
+    const summary = summarizeHeapSnapshot(fixture());
+    expect(summary.total_size).toBe(92);
+    expect(summary.node_count).toBe(6);
+    expect(summary.classes.D).toBeUndefined();
+  });
+
+  it("computes retained sizes from the dominator tree", () => {
+    const { classes } = summarizeHeapSnapshot(fixture());
+    // C is reachable from both A and B, so neither retains it
+    expect(classes.B).toEqual({ count: 1, self_size: 20, retained_size: 70 });
+    expect(classes.C).toEqual({ count: 1, self_size: 5, retained_size: 5 });
+  });
+
+  it("counts nested instances of a class once in its retained size", () => {
+    expect(summarizeHeapSnapshot(fixture()).classes.A).toEqual({ count: 2, self_size: 17, retained_size: 17 });
+  });
+
+  it("finds detached DOM nodes by detachedness or by name", () => {
+    for (const withDetachedness of [true, false]) {
+      const summary = summarizeHeapSnapshot(fixture(withDetachedness));
+      expect(summary.detached_dom_nodes).toBe(1);
+      expect(summary.classes["Detached HTMLDivElement"]).toEqual({ count: 1, self_size: 50, retained_size: 50 });
+    }
+  });
+
+  it("leaves synthetic nodes out of the class list", () => {
+    expect(summarizeHeapSnapshot(fixture()).classes["(synthetic)"]).toBeUndefined();
+  });
+
+  it("ranks constructors by retained size", () => {
+    const top = topConstructors(summarizeHeapSnapshot(fixture()), 2);
+    expect(top.map((c) => c.constructor)).toEqual(["B", "Detached HTMLDivElement"]);
+  });
+});
+
+describe("compareHeapSummaries", () => {
+  const summary = (classes: HeapSummary["classes"], detached: number): HeapSummary => ({
+    total_size: Object.values(classes).reduce((sum, c) => sum + c.self_size, 0),
+    node_count: Object.values(classes).reduce((sum, c) => sum + c.count, 0),
+    detached_dom_nodes: detached,
+    classes,
+  });
+
+  it("reports growth per constructor", () => {
+    const before = summary({
+      Listener: { count: 2, self_size: 64, retained_size: 64 },
+      Cache: { count: 1, self_size: 1000, retained_size: 1000 },
+      Same: { count: 3, self_size: 30, retained_size: 30 },
+    }, 0);
+    const after = summary({
+      Listener: { count: 12, self_size: 384, retained_size: 384 },
+      "Detached HTMLDivElement": { count: 4, self_size: 400, retained_size: 900 },
+      Same: { count: 3, self_size: 30, retained_size: 30 },
+    }, 4);
+
+    const diff = compareHeapSummaries(before, after, 10);
+    expect(diff.total_size_delta).toBe(-280);
+    expect(diff.detached_dom_nodes_delta).toBe(4);
+    expect(diff.grown).toEqual([
+      { constructor: "Detached HTMLDivElement", count_before: 0, count_after: 4, count_delta: 4, size_delta: 400 },
+      { constructor: "Listener", count_before: 2, count_after: 12, count_delta: 10, size_delta: 320 },
+    ]);
+    expect(diff.shrunk).toEqual([
+      { constructor: "Cache", count_before: 1, count_after: 0, count_delta: -1, size_delta: -1000 },
+    ]);
+  });
+});
@@ -0,0 +1,374 @@
+import type CDP from "chrome-remote-interface";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { profileDir } from "./profiling.js";
+
+// --- Types ---
+
+/** The V8 heap snapshot format (.heapsnapshot): flat node and edge arrays described by `meta`. */
+export interface HeapSnapshotLike {
+  snapshot: {
+    meta: {
+      node_fields: string[];
+      /** The first entry lists the node type names. */
+      node_types: [string[], ...unknown[]];
+      edge_fields: string[];
+      edge_types: [string[], ...unknown[]];
+    };
+  };
+  nodes: number[];
+  edges: number[];
+  strings: string[];
+}
+
+export interface ClassStats {
+  count: number;
+  self_size: number;
+  /** Memory freed if every instance were collected (instances nested in another instance counted once). */
+  retained_size: number;
+}
+
+export interface HeapSummary {
+  /** Bytes, reachable objects only. */
+  total_size: number;
+  node_count: number;
+  detached_dom_nodes: number;
+  classes: Record<string, ClassStats>;
+}
+
+export interface ConstructorStats extends ClassStats {
+  constructor: string;
+}
+
+export interface ConstructorDelta {
+  constructor: string;
+  count_before: number;
+  count_after: number;
+  count_delta: number;
+  size_delta: number;
+}
+
+export interface HeapComparison {
+  total_size_delta: number;
+  node_count_delta: number;
+  detached_dom_nodes_delta: number;
+  /** Largest growth in self size first. */
+  grown: ConstructorDelta[];
+  shrunk: ConstructorDelta[];
+}
+
+// --- Config ---
+
+const DETACHED_PREFIX = "Detached ";
+/** Node types that are bookkeeping, not objects the page made. */
+const SYNTHETIC_TYPE = "synthetic";
+
+// --- Summary ---
+
+/** DevTools' class naming: constructor names for objects, a type in parentheses otherwise. */
+function className(type: string, name: string, detached: boolean): string {
+  switch (type) {
+    case "object":
+    case "native":
+      return detached && !name.startsWith(DETACHED_PREFIX) ? DETACHED_PREFIX + name : name;
+    case "hidden":
+      return "(system)";
+    case "code":
+      return "(compiled code)";
+    default:
+      return `(${type})`;
+  }
+}
+
+/**
+ * Sizes per constructor, with retained sizes from the dominator tree
+ * (Cooper–Harvey–Kennedy over a DFS from the root, ignoring weak edges).
+ * Typed arrays throughout: real snapshots have millions of nodes.
+ */
+export function summarizeHeapSnapshot(heap: HeapSnapshotLike): HeapSummary {
+  const { meta } = heap.snapshot;
+  const nodeFieldCount = meta.node_fields.length;
+  const edgeFieldCount = meta.edge_fields.length;
+  const typeOffset = meta.node_fields.indexOf("type");
+  const nameOffset = meta.node_fields.indexOf("name");
+  const selfSizeOffset = meta.node_fields.indexOf("self_size");
+  const edgeCountOffset = meta.node_fields.indexOf("edge_count");
+  // Newer Chromes mark detached DOM nodes with a field (2 = detached) instead of a name prefix
+  const detachednessOffset = meta.node_fields.indexOf("detachedness");
+  const edgeTypeOffset = meta.edge_fields.indexOf("type");
+  const toNodeOffset = meta.edge_fields.indexOf("to_node");
+  const nodeTypes = meta.node_types[0];
+  const weakEdgeType = meta.edge_types[0].indexOf("weak");
+
+  const nodeCount = heap.nodes.length / nodeFieldCount;
+  const firstEdge = new Uint32Array(nodeCount + 1);
+  for (let i = 0; i < nodeCount; i++) {
+    firstEdge[i + 1] = firstEdge[i] + heap.nodes[i * nodeFieldCount + edgeCountOffset];
+  }
+  const edgeTarget = (e: number) => heap.edges[e * edgeFieldCount + toNodeOffset] / nodeFieldCount;
+  const isWeak = (e: number) => heap.edges[e * edgeFieldCount + edgeTypeOffset] === weakEdgeType;
+
+  // Postorder DFS from the root (node 0); unreachable nodes are garbage and skipped
+  const postorder = new Int32Array(nodeCount);
+  const postIndex = new Int32Array(nodeCount).fill(-1);
+  const visited = new Uint8Array(nodeCount);
+  const stackNode = new Int32Array(nodeCount);
+  const stackEdge = new Uint32Array(nodeCount);
+  let reachable = 0;
+  let sp = 0;
+  if (nodeCount > 0) {
+    stackNode[0] = 0;
+    stackEdge[0] = firstEdge[0];
+    visited[0] = 1;
+    sp = 1;
+  }
+  while (sp > 0) {
+    const node = stackNode[sp - 1];
+    const edge = stackEdge[sp - 1];
+    if (edge < firstEdge[node + 1]) {
+      stackEdge[sp - 1] = edge + 1;
+      if (isWeak(edge)) continue;
+      const target = edgeTarget(edge);
+      if (!visited[target]) {
+        visited[target] = 1;
+        stackNode[sp] = target;
+        stackEdge[sp] = firstEdge[target];
+        sp++;
+      }
+    } else {
+      sp--;
+      postIndex[node] = reachable;
+      postorder[reachable++] = node;
+    }
+  }
+
+  // Predecessors by postorder index (CSR layout)
+  const predStart = new Uint32Array(reachable + 1);
+  for (let po = 0; po < reachable; po++) {
+    const node = postorder[po];
+    for (let e = firstEdge[node]; e < firstEdge[node + 1]; e++) {
+      if (!isWeak(e)) predStart[postIndex[edgeTarget(e)] + 1]++;
+    }
+  }
+  for (let po = 0; po < reachable; po++) predStart[po + 1] += predStart[po];
+  const preds = new Int32Array(predStart[reachable]);
+  const fill = predStart.slice(0, reachable);
+  for (let po = 0; po < reachable; po++) {
+    const node = postorder[po];
+    for (let e = firstEdge[node]; e < firstEdge[node + 1]; e++) {
+      if (!isWeak(e)) preds[fill[postIndex[edgeTarget(e)]]++] = po;
+    }
+  }
+
+  // Immediate dominators; the root has the highest postorder index
+  const root = reachable - 1;
+  const dom = new Int32Array(reachable).fill(-1);
+  if (reachable > 0) dom[root] = root;
+  const intersect = (a: number, b: number) => {
+    while (a !== b) {
+      while (a < b) a = dom[a];
+      while (b < a) b = dom[b];
+    }
+    return a;
+  };
+  for (let changed = true; changed;) {
+    changed = false;
+    for (let po = root - 1; po >= 0; po--) {
+      let idom = -1;
+      for (let p = predStart[po]; p < predStart[po + 1]; p++) {
+        const pred = preds[p];
+        if (dom[pred] === -1) continue;
+        idom = idom === -1 ? pred : intersect(pred, idom);
+      }
+      if (dom[po] !== idom) {
+        dom[po] = idom;
+        changed = true;
+      }
+    }
+  }
+
+  // Retained size: own size plus everything it dominates (dominators come later in postorder)
+  const retained = new Float64Array(reachable);
+  for (let po = 0; po < reachable; po++) {
+    retained[po] = heap.nodes[postorder[po] * nodeFieldCount + selfSizeOffset];
+  }
+  for (let po = 0; po < root; po++) retained[dom[po]] += retained[po];
+
+  // Per-class stats
+  const classIds = new Map<string, number>();
+  const classNames: string[] = [];
+  const classOf = new Int32Array(reachable).fill(-1);
+  const counts: number[] = [];
+  const selfSizes: number[] = [];
+  let detached = 0;
+  for (let po = 0; po < reachable; po++) {
+    const base = postorder[po] * nodeFieldCount;
+    const type = nodeTypes[heap.nodes[base + typeOffset]];
+    if (type === SYNTHETIC_TYPE) continue;
+    const name = heap.strings[heap.nodes[base + nameOffset]];
+    const isDetached = type === "native" &&
+      (name.startsWith(DETACHED_PREFIX) || (detachednessOffset >= 0 && heap.nodes[base + detachednessOffset] === 2));
+    if (isDetached) detached++;
+
+    const cls = className(type, name, isDetached);
+    let id = classIds.get(cls);
+    if (id === undefined) {
+      id = classNames.length;
+      classIds.set(cls, id);
+      classNames.push(cls);
+      counts.push(0);
+      selfSizes.push(0);
+    }
+    classOf[po] = id;
+    counts[id]++;
+    selfSizes[id] += heap.nodes[base + selfSizeOffset];
+  }
+
+  // Class retained sizes: walk the dominator tree, counting an instance only
+  // when no instance of the same class dominates it
+  const childStart = new Uint32Array(reachable + 1);
+  for (let po = 0; po < root; po++) childStart[dom[po] + 1]++;
+  for (let po = 0; po < reachable; po++) childStart[po + 1] += childStart[po];
+  const children = new Int32Array(Math.max(reachable - 1, 0));
+  const childFill = childStart.slice(0, reachable);
+  for (let po = 0; po < root; po++) children[childFill[dom[po]]++] = po;
+
+  const classRetained = new Float64Array(classNames.length);
+  const onStack = new Int32Array(classNames.length);
+  const walkNode = new Int32Array(reachable);
+  const walkChild = new Uint32Array(reachable);
+  sp = 0;
+  if (reachable > 0) {
+    walkNode[0] = root;
+    walkChild[0] = childStart[root];
+    sp = 1;
+  }
+  while (sp > 0) {
+    const po = walkNode[sp - 1];
+    const child = walkChild[sp - 1];
+    if (child < childStart[po + 1]) {
+      walkChild[sp - 1] = child + 1;
+      const next = children[child];
+      const cls = classOf[next];
+      if (cls >= 0) {
+        if (onStack[cls] === 0) classRetained[cls] += retained[next];
+        onStack[cls]++;
+      }
+      walkNode[sp] = next;
+      walkChild[sp] = childStart[next];
+      sp++;
+    } else {
+      sp--;
+      if (classOf[po] >= 0 && po !== root) onStack[classOf[po]]--;
+    }
+  }
+
+  const classes: Record<string, ClassStats> = {};
+  classNames.forEach((name, id) => {
+    classes[name] = { count: counts[id], self_size: selfSizes[id], retained_size: classRetained[id] };
+  });
+
+  return {
+    total_size: reachable > 0 ? retained[root] : 0,
+    node_count: reachable,
+    detached_dom_nodes: detached,
+    classes,
+  };
+}
+
+export function topConstructors(summary: HeapSummary, limit: number, filter?: (name: string) => boolean): ConstructorStats[] {
+  return Object.entries(summary.classes)
+    .filter(([name]) => !filter || filter(name))
+    .sort(([, a], [, b]) => b.retained_size - a.retained_size)
+    .slice(0, limit)
+    .map(([name, stats]) => ({ constructor: name, ...stats }));
+}
+
+/** Per-constructor growth between two snapshots. */
+export function compareHeapSummaries(before: HeapSummary, after: HeapSummary, limit: number): HeapComparison {
+  const names = new Set([...Object.keys(before.classes), ...Object.keys(after.classes)]);
+  const deltas: ConstructorDelta[] = [];
+  for (const name of names) {
+    const a = before.classes[name];
+    const b = after.classes[name];
+    const countBefore = a?.count ?? 0;
+    const countAfter = b?.count ?? 0;
+    const sizeDelta = (b?.self_size ?? 0) - (a?.self_size ?? 0);
+    if (countAfter === countBefore && sizeDelta === 0) continue;
+    deltas.push({
+      constructor: name,
+      count_before: countBefore,
+      count_after: countAfter,
+      count_delta: countAfter - countBefore,
+      size_delta: sizeDelta,
+    });
+  }
+
+  return {
+    total_size_delta: after.total_size - before.total_size,
+    node_count_delta: after.node_count - before.node_count,
+    detached_dom_nodes_delta: after.detached_dom_nodes - before.detached_dom_nodes,
+    grown: deltas.filter((d) => d.size_delta > 0 || (d.size_delta === 0 && d.count_delta > 0))
+      .sort((x, y) => y.size_delta - x.size_delta || y.count_delta - x.count_delta)
+      .slice(0, limit),
+    shrunk: deltas.filter((d) => d.size_delta < 0 || (d.size_delta === 0 && d.count_delta < 0))
+      .sort((x, y) => x.size_delta - y.size_delta || x.count_delta - y.count_delta)
+      .slice(0, limit),
+  };
+}
+
+// --- Memory Inspector ---
+
+/**
+ * Takes heap snapshots and keeps their summaries by name, so later
+ * comparisons don't have to re-parse the (often hundreds of MB) files.
+ */
+export class MemoryInspector {
+  private summaries = new Map<string, { file: string; summary: HeapSummary }>();
+
+  async takeSnapshot(client: CDP.Client, name?: string): Promise<{ name: string; file: string; summary: HeapSummary }> {
+    const snapshotName = name ?? `heap-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+    const chunks: string[] = [];
+    const unsubscribe = client.HeapProfiler.addHeapSnapshotChunk(({ chunk }) => {
+      chunks.push(chunk);
+    });
+    try {
+      await client.HeapProfiler.enable();
+      // Chrome collects garbage first, so only live objects are captured
+      await client.HeapProfiler.takeHeapSnapshot({ reportProgress: false });
+    } finally {
+      unsubscribe();
+    }
+
+    const json = chunks.join("");
+    await mkdir(profileDir, { recursive: true });
+    const file = join(profileDir, `${snapshotName.replace(/[^a-zA-Z0-9._-]+/g, "-")}.heapsnapshot`);
+    await writeFile(file, json);
+
+    const summary = summarizeHeapSnapshot(JSON.parse(json) as HeapSnapshotLike);
+    this.summaries.set(snapshotName, { file, summary });
+    return { name: snapshotName, file, summary };
+  }
+
+  /** A summary by snapshot name from this session, or from a .heapsnapshot file path. */
+  async getSummary(nameOrPath: string): Promise<HeapSummary> {
+    const known = this.summaries.get(nameOrPath);
+    if (known) return known.summary;
+
+    let json: string;
+    try {
+      json = await readFile(nameOrPath, "utf8");
+    } catch {
+      const names = Array.from(this.summaries.keys());
+      throw new Error(
+        `No snapshot named "${nameOrPath}" and no such file. ` +
+        (names.length > 0 ? `Snapshots this session: ${names.join(", ")}` : "Take one with memory_snapshot first."),
+      );
+    }
+    const summary = summarizeHeapSnapshot(JSON.parse(json) as HeapSnapshotLike);
+    this.summaries.set(nameOrPath, { file: nameOrPath, summary });
+    return summary;
+  }
+}
+
+export const memoryInspector = new MemoryInspector();
@@ -1,14 +1,43 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
 import CDP from "chrome-remote-interface";
-import { cdpClient, config } from "./cdp-client.js";
+import { cdpClient, config, type NetworkEntry } from "./cdp-client.js";
+import { queryConsole, SEVERITIES } from "./console-filter.js";
+import { filterNetworkEntries } from "./network-filter.js";
+import { buildHar, type HarBodies } from "./har.js";
+import { mockManager, MOCK_ACTIONS, MOCK_ERROR_REASONS } from "./network-mocks.js";
+import { networkEmulator, THROTTLING_PRESETS } from "./network-emulation.js";
+import { COLOR_SCHEMES, DEVICE_PRESETS, deviceEmulator, REDUCED_MOTION } from "./device-emulation.js";
+import {
+  clickAt, DEFAULT_ACTION_TIMEOUT_MS, hoverAt, MODIFIER_KEYS, modifierMask, pressKey, releaseElements,
+  resolveActionable, scrollBy, selectContents, selectOption, typeText,
+  type ActionableElement, type ElementLocator,
+} from "./input.js";
+import {
+  DEFAULT_NAVIGATION_TIMEOUT_MS, getHistory, historyEntryAt, navigateAndWait, WAIT_UNTIL,
+} from "./navigation.js";
+import { waitFor } from "./wait-for.js";
+import { addHighlights, captureArea, planScreenshot, removeHighlights } from "./screenshot.js";
+import { baselinePath, comparePngs, type BaselineKey } from "./visual-diff.js";
+import { auditAccessibility, AUDIT_RULES, getAXTree } from "./accessibility.js";
+import { DEFAULT_DROPPED_ATTRIBUTES, snapshotElements } from "./dom-snapshot.js";
+import { styleInspector } from "./styles.js";
+import { collectPerformance } from "./performance.js";
+import { DEFAULT_TRACE_CATEGORIES, profileRecorder } from "./profiling.js";
+import { compareHeapSummaries, memoryInspector, topConstructors, type HeapSummary } from "./heap-snapshot.js";
+import { coverageRecorder, IstanbulCollector, localPath } from "./coverage.js";
+import { debuggerManager, PAUSE_ON_EXCEPTIONS, STEP_ACTIONS } from "./debugger.js";
 import { isAutoLaunchEnabled, findChromePath } from "./chrome-launcher.js";
 import { serverManager } from "./server-manager.js";
 
+const SERVER_VERSION = "0.1.0";
+
 const server = new McpServer({
   name: "relay-inspect",
-  version: "0.1.0",
+  version: SERVER_VERSION,
 });
 
 // --- Helper ---
@@ -29,6 +58,27 @@ function connectionError(err: unknown): { content: [{ type: "text"; text: string
   };
 }
 
+/** Page work stopped at a breakpoint; the CDP call behind it won't finish until execution resumes. */
+async function pausedResult(): Promise<{ content: [{ type: "text"; text: string }] }> {
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        paused: true,
+        paused_at: await debuggerManager.pausedAt(),
+        hint: "Execution is paused in the debugger. Inspect it with get_paused_state, then step or resume.",
+      }, null, 2),
+    }],
+  };
+}
+
+/** Input and page scripts can't run while paused — the CDP call would wait until execution resumes. */
+function alreadyPausedError(): { content: [{ type: "text"; text: string }] } {
+  return {
+    content: [{ type: "text", text: JSON.stringify({ error: "Execution is paused in the debugger — resume or step before interacting with the page" }, null, 2) }],
+  };
+}
+
 // --- Tool: check_connection ---
 
 server.tool(
@@ -43,6 +93,8 @@ server.tool(
         auto_launch_enabled: isAutoLaunchEnabled(),
         chrome_path: findChromePath(),
       },
+      network_conditions: networkEmulator.isActive() ? networkEmulator.getConditions() : "default",
+      device_emulation: deviceEmulator.isActive() ? deviceEmulator.getState() : "default",
     };
 
     // Step 1: Check if Chrome is reachable via CDP
@@ -74,6 +126,10 @@ server.tool(
         id: t.id,
       }));
 
+      result.current_target = cdpClient.getCurrentTarget();
+      result.followed_target = cdpClient.getFollowedTarget();
+      result.reconnecting = cdpClient.isReconnecting();
+
       result.status = pages.length > 0
         ? "Connected and ready"
         : "Chrome is reachable but no page targets found — open a page in Chrome";
@@ -88,6 +144,122 @@ server.tool(
   },
 );
 
+// --- Tool: list_targets ---
+
+server.tool(
+  "list_targets",
+  "List open page targets (tabs) in Chrome and show which one is currently inspected",
+  {},
+  async () => {
+    try {
+      const targets = await cdpClient.listTargets();
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ count: targets.length, targets }, null, 2),
+        }],
+      };
+    } catch (err) {
+      return connectionError(err);
+    }
+  },
+);
+
+// --- Tool: select_target ---
+
+server.tool(
+  "select_target",
+  "Switch inspection to a different tab, matched by target ID, URL substring or title",
+  {
+    id: z.string().optional().describe("Exact target ID from list_targets"),
+    url: z.string().optional().describe("URL substring to match (e.g. 'localhost:6006' for Storybook)"),
+    title: z.string().optional().describe("Case-insensitive page title substring to match"),
+  },
+  async ({ id, url, title }) => {
+    if (id === undefined && url === undefined && title === undefined) {
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ error: "Provide at least one of id, url or title." }, null, 2),
+        }],
+      };
+    }
+
+    try {
+      const target = await cdpClient.selectTarget({ id, url, title });
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ success: true, target }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: open_tab ---
+
+server.tool(
+  "open_tab",
+  "Open a new tab at a URL and (by default) switch inspection to it",
+  {
+    url: z.string().describe("URL to open"),
+    select: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Switch inspection to the new tab (default: true)"),
+  },
+  async ({ url, select }) => {
+    try {
+      const target = await cdpClient.openTab(url, select);
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ success: true, selected: select, target }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: close_tab ---
+
+server.tool(
+  "close_tab",
+  "Close a tab by target ID",
+  {
+    id: z.string().describe("Target ID from list_targets"),
+  },
+  async ({ id }) => {
+    try {
+      const wasCurrent = cdpClient.getCurrentTarget()?.id === id;
+      await cdpClient.closeTab(id);
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ success: true, id, was_current: wasCurrent }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
 // --- Tool: evaluate_js ---
 
 server.tool(
@@ -103,12 +275,14 @@ server.tool(
     }
 
     try {
-      const result = await client.Runtime.evaluate({
+      const outcome = await debuggerManager.untilPaused(client.Runtime.evaluate({
         expression,
         returnByValue: true,
         awaitPromise: true,
         timeout: 10000,
-      });
+      }));
+      if (outcome.paused) return pausedResult();
+      const result = outcome.value;
 
       if (result.exceptionDetails) {
         const text = result.exceptionDetails.exception?.description
@@ -141,29 +315,99 @@ server.tool(
 
 server.tool(
   "get_console_logs",
-  "Return buffered console output (logs, warnings, errors) from the browser",
+  "Return buffered console output (logs, warnings, errors, uncaught exceptions) from the browser, with source-mapped locations and stack traces",
   {
+    level: z
+      .array(z.string())
+      .optional()
+      .describe("Only these levels (e.g. ['error', 'exception']; levels include log, info, debug, warning, error, exception, relay)"),
+    min_level: z
+      .enum(SEVERITIES)
+      .optional()
+      .describe("Only entries at or above this severity (debug < info < warning < error < exception)"),
+    pattern: z
+      .string()
+      .optional()
+      .describe("Regular expression the message must match"),
+    contains: z
+      .string()
+      .optional()
+      .describe("Case-insensitive substring the message must contain"),
+    since: z
+      .string()
+      .optional()
+      .describe("ISO timestamp — only entries at or after this time"),
+    logpoint: z
+      .string()
+      .optional()
+      .describe("Only output of this logpoint id (e.g. 'lp-3'), or '*' for all logpoints"),
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Maximum number of entries to return"),
+    from: z
+      .enum(["head", "tail"])
+      .optional()
+      .default("tail")
+      .describe("Which end to keep when limit truncates: oldest (head) or most recent (tail, default)"),
+    dedupe: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Collapse repeated messages into one entry with a count (default: false)"),
+    after: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Cursor from a previous next_cursor — return only newer entries and leave the buffer intact"),
     clear: z
       .boolean()
       .optional()
       .default(true)
-      .describe("Clear the buffer after reading (default: true)"),
+      .describe("Clear the buffer after reading, including entries the filters excluded (default: true; ignored when after is set)"),
   },
-  async ({ clear }) => {
+  async ({ level, min_level, pattern, contains, since, logpoint, limit, from, dedupe, after, clear }) => {
     try {
       await cdpClient.ensureConnected();
     } catch (err) {
       return connectionError(err);
     }
 
-    const entries = clear
-      ? cdpClient.consoleLogs.drain()
-      : cdpClient.consoleLogs.peek();
+    const read = cdpClient.consoleLogs.read(after);
+
+    // Query before draining so a bad pattern doesn't throw the buffer away
+    let result;
+    try {
+      result = queryConsole(read.entries.map(({ seq, item }) => ({ seq, ...item })), {
+        levels: level, min_level, pattern, contains, since, logpoint, limit, from, dedupe,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+
+    if (clear && after === undefined) {
+      cdpClient.consoleLogs.drain();
+    }
+
+    const entries = await cdpClient.sourceMaps.resolveConsoleEntries(result.entries);
 
     return {
       content: [{
         type: "text",
-        text: JSON.stringify({ count: entries.length, entries }, null, 2),
+        text: JSON.stringify({
+          count: entries.length,
+          matched: result.matched,
+          truncated: result.truncated,
+          next_cursor: read.nextCursor,
+          evicted: read.evicted,
+          entries,
+        }, null, 2),
       }],
     };
   },
@@ -173,37 +417,93 @@ server.tool(
 
 server.tool(
   "get_network_requests",
-  "Return captured network requests and responses from the browser",
+  "Return captured network requests (including in-flight ones) with status, timing, type, size, redirects and initiator",
   {
     filter: z
       .string()
       .optional()
       .describe("URL substring filter — only return requests matching this string"),
+    method: z.string().optional().describe("HTTP method (e.g. 'POST')"),
+    resource_type: z
+      .array(z.string())
+      .optional()
+      .describe("Resource types to include (e.g. ['Fetch', 'XHR']; others: Document, Script, Stylesheet, Image, Font…)"),
+    status: z.number().int().optional().describe("Exact HTTP status code"),
+    status_min: z.number().int().optional().describe("Minimum HTTP status code (e.g. 400)"),
+    status_max: z.number().int().optional().describe("Maximum HTTP status code"),
+    state: z
+      .array(z.enum(["pending", "complete", "failed"]))
+      .optional()
+      .describe("Request lifecycle states to include"),
+    failed: z
+      .boolean()
+      .optional()
+      .describe("true: only network failures and 4xx/5xx responses; false: only successful ones"),
+    mime_type: z.string().optional().describe("MIME type substring (e.g. 'json')"),
+    include_pending: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Include requests still in flight, which have no seq (default: true)"),
+    include_headers: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Include request and response headers (default: false — use get_network_request_detail for one request)"),
+    after: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Cursor from a previous next_cursor — return only newer entries and leave the buffer intact"),
     clear: z
       .boolean()
       .optional()
       .default(true)
-      .describe("Clear the buffer after reading (default: true)"),
+      .describe("Clear the buffer after reading (default: true; ignored when after is set)"),
   },
-  async ({ filter, clear }) => {
+  async ({ filter, method, resource_type, status, status_min, status_max, state, failed, mime_type, include_pending, include_headers, after, clear }) => {
     try {
       await cdpClient.ensureConnected();
     } catch (err) {
       return connectionError(err);
     }
 
-    let entries = clear
-      ? cdpClient.networkRequests.drain()
-      : cdpClient.networkRequests.peek();
+    const read = cdpClient.networkRequests.read(after);
+    if (clear && after === undefined) {
+      cdpClient.networkRequests.drain();
+    }
 
-    if (filter) {
-      entries = entries.filter((e) => e.url.includes(filter));
+    const captured: Array<NetworkEntry & { seq?: number }> = read.entries.map(({ seq, item }) => ({ seq, ...item }));
+    if (include_pending) {
+      captured.push(...cdpClient.getPendingRequests());
     }
 
+    const matched = filterNetworkEntries(captured, {
+      url: filter,
+      method,
+      resource_types: resource_type,
+      status,
+      status_min,
+      status_max,
+      states: state,
+      failed,
+      mime_type,
+    });
+
+    const entries = include_headers
+      ? matched
+      : matched.map(({ request_headers: _req, response_headers: _res, ...rest }) => rest);
+
     return {
       content: [{
         type: "text",
-        text: JSON.stringify({ count: entries.length, entries }, null, 2),
+        text: JSON.stringify({
+          count: entries.length,
+          next_cursor: read.nextCursor,
+          evicted: read.evicted,
+          entries,
+        }, null, 2),
       }],
     };
   },
@@ -213,7 +513,7 @@ server.tool(
 
 server.tool(
   "get_elements",
-  "Query the DOM with a CSS selector and return matching elements' outer HTML",
+  "Query the DOM with a CSS selector and return matching elements' outer HTML, or a compact snapshot tree with bounding boxes, visibility and node refs that click, take_screenshot and other tools accept",
   {
     selector: z.string().describe("CSS selector to query"),
     limit: z
@@ -221,8 +521,24 @@ server.tool(
       .optional()
       .default(10)
       .describe("Maximum number of elements to return (default: 10)"),
+    mode: z
+      .enum(["html", "snapshot"])
+      .optional()
+      .default("html")
+      .describe("html: outer HTML; snapshot: pruned element tree with refs, boxes and visibility (default: html)"),
+    depth: z.number().min(0).optional().default(3).describe("Snapshot: element levels below each match to include (default: 3)"),
+    text_length: z
+      .number()
+      .min(1)
+      .optional()
+      .default(80)
+      .describe("Snapshot: truncate text and attribute values to this many characters (default: 80)"),
+    drop_attributes: z
+      .array(z.string())
+      .optional()
+      .describe(`Snapshot: attributes to omit, trailing * for prefixes like data-* (default: ${DEFAULT_DROPPED_ATTRIBUTES.join(", ")})`),
   },
-  async ({ selector, limit }) => {
+  async ({ selector, limit, mode, depth, text_length, drop_attributes }) => {
     let client: CDP.Client;
     try {
       client = await cdpClient.ensureConnected();
@@ -230,6 +546,27 @@ server.tool(
       return connectionError(err);
     }
 
+    if (mode === "snapshot") {
+      try {
+        const snapshot = await snapshotElements(client, selector, limit, {
+          depth,
+          textLength: text_length,
+          dropAttributes: drop_attributes ?? DEFAULT_DROPPED_ATTRIBUTES,
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ count: snapshot.elements.length, ...snapshot }, null, 2),
+          }],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+        };
+      }
+    }
+
     try {
       const doc = await client.DOM.getDocument({ depth: 0 });
       const result = await client.DOM.querySelectorAll({
@@ -282,68 +619,60 @@ server.tool(
   },
 );
 
-// --- Tool: wait_and_check ---
+// --- Tool: get_accessibility_tree ---
 
 server.tool(
-  "wait_and_check",
-  "Wait N seconds then return new console output captured during the wait (useful after page reload)",
+  "get_accessibility_tree",
+  "Get a compact accessibility tree (roles, accessible names, states such as focusable/checked/expanded), optionally scoped to one element",
   {
-    seconds: z
-      .number()
+    selector: z.string().optional().describe("CSS selector of the subtree root (default: whole page)"),
+    interesting_only: z
+      .boolean()
       .optional()
-      .default(2)
-      .describe("Seconds to wait before checking (default: 2)"),
+      .default(true)
+      .describe("Drop ignored and unnamed generic nodes (default: true)"),
+    max_depth: z.number().optional().describe("Maximum depth to include"),
+    max_nodes: z.number().optional().default(500).describe("Maximum nodes to include (default: 500)"),
   },
-  async ({ seconds }) => {
+  async ({ selector, interesting_only, max_depth, max_nodes }) => {
+    let client: CDP.Client;
     try {
-      await cdpClient.ensureConnected();
+      client = await cdpClient.ensureConnected();
     } catch (err) {
       return connectionError(err);
     }
 
-    // Drain stale entries
-    cdpClient.consoleLogs.drain();
-
-    // Wait for the specified duration
-    await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
-
-    // Capture what arrived during the wait
-    const entries = cdpClient.consoleLogs.drain();
-
-    return {
-      content: [{
-        type: "text",
-        text: JSON.stringify(
-          { waited_seconds: seconds, count: entries.length, entries },
-          null,
-          2,
-        ),
-      }],
-    };
+    try {
+      const outline = await getAXTree(client, selector, {
+        interestingOnly: interesting_only,
+        maxDepth: max_depth,
+        maxNodes: max_nodes,
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(outline, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
   },
 );
 
-// --- Tool: take_screenshot ---
-
-const MAX_BODY_SIZE = 10 * 1024; // 10KB truncation limit for network bodies
+// --- Tool: audit_accessibility ---
 
 server.tool(
-  "take_screenshot",
-  "Capture a screenshot of the current page",
+  "audit_accessibility",
+  "Check the page for common accessibility violations: images without alt text, unlabeled form controls, unnamed buttons and links, duplicate ids, keyboard-unreachable controls and low color contrast",
   {
-    format: z
-      .enum(["png", "jpeg"])
-      .optional()
-      .default("png")
-      .describe("Image format (default: png)"),
-    quality: z
-      .number()
-      .min(0)
-      .max(100)
+    selector: z.string().optional().describe("Only audit inside the element matching this CSS selector"),
+    rules: z
+      .array(z.enum(AUDIT_RULES))
       .optional()
-      .describe("Compression quality 0-100 (jpeg only)"),
+      .describe("Rules to run (default: all)"),
   },
-  async ({ format, quality }) => {
+  async ({ selector, rules }) => {
     let client: CDP.Client;
     try {
       client = await cdpClient.ensureConnected();
@@ -352,18 +681,11 @@ server.tool(
     }
 
     try {
-      const params: { format: string; quality?: number } = { format };
-      if (format === "jpeg" && quality !== undefined) {
-        params.quality = quality;
-      }
-
-      const result = await client.Page.captureScreenshot(params);
-
+      const result = await auditAccessibility(client, selector, rules);
       return {
         content: [{
-          type: "image",
-          data: result.data,
-          mimeType: format === "png" ? "image/png" : "image/jpeg",
+          type: "text",
+          text: JSON.stringify({ count: result.violations.length, ...result }, null, 2),
         }],
       };
     } catch (err) {
@@ -375,19 +697,26 @@ server.tool(
   },
 );
 
-// --- Tool: reload_page ---
+// --- Tool: get_styles ---
 
 server.tool(
-  "reload_page",
-  "Reload the current page (optionally bypass cache)",
+  "get_styles",
+  "Inspect an element's computed styles, box model (content/padding/border/margin) and matched CSS rules with their source file locations (source-mapped where possible)",
   {
-    ignoreCache: z
+    ref: z.number().optional().describe("Node ref from get_elements snapshot mode"),
+    selector: z.string().optional().describe("CSS selector of the element (first match)"),
+    properties: z
+      .array(z.string())
+      .optional()
+      .describe("Computed properties to return, trailing * for prefixes (e.g. ['display', 'margin*']). Default: all"),
+    include_rules: z.boolean().optional().default(true).describe("Include matched CSS rules (default: true)"),
+    include_user_agent: z
       .boolean()
       .optional()
       .default(false)
-      .describe("Bypass cache (hard refresh) when true (default: false)"),
+      .describe("Include browser default (user-agent) rules (default: false)"),
   },
-  async ({ ignoreCache }) => {
+  async ({ ref, selector, properties, include_rules, include_user_agent }) => {
     let client: CDP.Client;
     try {
       client = await cdpClient.ensureConnected();
@@ -395,13 +724,22 @@ server.tool(
       return connectionError(err);
     }
 
-    try {
-      await client.Page.reload({ ignoreCache });
+    if (ref === undefined && selector === undefined) {
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: "Provide a ref or selector" }, null, 2) }],
+      };
+    }
 
+    try {
+      const report = await styleInspector.getStyles(client, { ref, selector }, {
+        properties: properties ?? [],
+        includeUserAgent: include_user_agent,
+      });
+      const { matched_rules: _rules, ...rest } = report;
       return {
         content: [{
           type: "text",
-          text: JSON.stringify({ success: true, ignoreCache }, null, 2),
+          text: JSON.stringify(include_rules ? report : rest, null, 2),
         }],
       };
     } catch (err) {
@@ -413,68 +751,1801 @@ server.tool(
   },
 );
 
-// --- Tool: get_network_request_detail ---
+// --- Tool: wait_and_check ---
 
 server.tool(
-  "get_network_request_detail",
-  "Get full request and response body for a specific network request by ID",
+  "wait_and_check",
+  "Wait N seconds then return new console output captured during the wait (useful after page reload)",
   {
-    requestId: z.string().describe("Request ID from get_network_requests output"),
+    seconds: z
+      .number()
+      .optional()
+      .default(2)
+      .describe("Seconds to wait before checking (default: 2)"),
   },
-  async ({ requestId }) => {
-    let client: CDP.Client;
+  async ({ seconds }) => {
     try {
-      client = await cdpClient.ensureConnected();
+      await cdpClient.ensureConnected();
     } catch (err) {
       return connectionError(err);
     }
 
-    // Find the request summary from the buffer
-    const entries = cdpClient.networkRequests.peek();
-    const entry = entries.find((e) => e.id === requestId);
-
-    const detail: Record<string, unknown> = {
-      requestId,
-      summary: entry ?? null,
-    };
+    // Remember where the buffer ends — earlier entries stay for other readers
+    const cursor = cdpClient.consoleLogs.cursor;
+
+    // Wait for the specified duration
+    await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+
+    // Capture what arrived during the wait
+    const read = cdpClient.consoleLogs.read(cursor);
+    const entries = await cdpClient.sourceMaps.resolveConsoleEntries(
+      read.entries.map(({ seq, item }) => ({ seq, ...item })),
+    );
+
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(
+          { waited_seconds: seconds, count: entries.length, next_cursor: read.nextCursor, evicted: read.evicted, entries },
+          null,
+          2,
+        ),
+      }],
+    };
+  },
+);
+
+// --- Tool: wait_for ---
+
+server.tool(
+  "wait_for",
+  "Block until conditions hold or a timeout fires: a selector appearing/disappearing, a JS predicate becoming truthy, a console message, a network request finishing, or a managed server printing a line. Returns which conditions were met plus the console and network activity captured while waiting",
+  {
+    selector: z.string().optional().describe("CSS selector to wait for"),
+    selector_state: z
+      .enum(["present", "absent"])
+      .optional()
+      .default("present")
+      .describe("Wait for the selector to appear or disappear (default: present)"),
+    predicate: z.string().optional().describe("JavaScript expression to wait for to become truthy (promises are awaited)"),
+    console_pattern: z.string().optional().describe("Regular expression a new console message must match"),
+    network_url: z.string().optional().describe("URL substring or * glob of a request that must finish (complete or failed)"),
+    server_id: z.string().optional().describe("Managed server to watch (requires server_pattern)"),
+    server_pattern: z.string().optional().describe("Regular expression a new server output line must match"),
+    timeout_ms: z.number().optional().default(10000).describe("Maximum time to wait in ms (default: 10000)"),
+    max_entries: z
+      .number()
+      .optional()
+      .default(50)
+      .describe("Maximum console and network entries to return each, most recent first kept (default: 50)"),
+  },
+  async ({ timeout_ms, max_entries, ...conditions }) => {
+    let client: CDP.Client | null = null;
+    const needsBrowser = conditions.selector !== undefined || conditions.predicate !== undefined ||
+      conditions.console_pattern !== undefined || conditions.network_url !== undefined;
+    if (needsBrowser) {
+      try {
+        client = await cdpClient.ensureConnected();
+      } catch (err) {
+        return connectionError(err);
+      }
+    }
+
+    if (client && debuggerManager.isPaused()) return alreadyPausedError();
+    try {
+      // Selector and predicate polls run page script, which stops at breakpoints
+      const outcome = await debuggerManager.untilPaused(waitFor(cdpClient, client, serverManager, conditions, timeout_ms));
+      if (outcome.paused) return pausedResult();
+      const result = outcome.value;
+      const consoleEntries = await cdpClient.sourceMaps.resolveConsoleEntries(result.console.slice(-max_entries));
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            satisfied: result.satisfied,
+            ...(result.aborted && { aborted: result.aborted }),
+            timed_out: !result.satisfied && !result.aborted,
+            elapsed_ms: result.elapsed_ms,
+            conditions: result.conditions,
+            console: {
+              count: result.console.length,
+              truncated: result.console.length > max_entries,
+              next_cursor: result.console_cursor,
+              entries: consoleEntries,
+            },
+            network: {
+              count: result.network.length,
+              truncated: result.network.length > max_entries,
+              next_cursor: result.network_cursor,
+              entries: result.network.slice(-max_entries).map(({ request_headers: _req, response_headers: _res, ...rest }) => rest),
+            },
+          }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: take_screenshot ---
+
+const MAX_BODY_SIZE = 10 * 1024; // 10KB truncation limit for network bodies
+
+server.tool(
+  "take_screenshot",
+  "Capture a screenshot of the viewport, the full page, or one element, optionally downscaled and with matched elements outlined",
+  {
+    format: z
+      .enum(["png", "jpeg"])
+      .optional()
+      .default("png")
+      .describe("Image format (default: png)"),
+    quality: z
+      .number()
+      .min(0)
+      .max(100)
+      .optional()
+      .describe("Compression quality 0-100 (jpeg only)"),
+    ref: z.number().optional().describe("Clip to the element with this node ref from get_elements snapshot mode"),
+    selector: z.string().optional().describe("Clip to the bounding box of the first element matching this CSS selector"),
+    padding: z.number().min(0).optional().default(0).describe("Extra CSS pixels around the element's box (default: 0)"),
+    fullPage: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Capture the whole scrollable page instead of the viewport (default: false)"),
+    maxWidth: z.number().min(1).optional().describe("Downscale so the image is at most this many pixels wide"),
+    scale: z.number().min(0.1).max(2).optional().describe("Scale factor for the image (default: 1)"),
+    highlight: z.string().optional().describe("Outline every element matching this CSS selector in the capture"),
+    annotate: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Number highlighted elements and list them in the response (default: false)"),
+  },
+  async ({ format, quality, ref, selector, padding, fullPage, maxWidth, scale, highlight, annotate }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const { area, devicePixelRatio } = await captureArea(client, { ref, selector, fullPage, padding });
+      const plan = planScreenshot(area, devicePixelRatio, { scale, maxWidth });
+
+      const annotations = highlight !== undefined ? await addHighlights(client, highlight, annotate) : undefined;
+      let result: { data: string };
+      try {
+        result = await client.Page.captureScreenshot({
+          format,
+          ...(format === "jpeg" && quality !== undefined && { quality }),
+          clip: plan.clip,
+          // Element clips may lie outside the viewport too
+          captureBeyondViewport: fullPage || ref !== undefined || selector !== undefined,
+        });
+      } finally {
+        if (annotations) {
+          await removeHighlights(client);
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "image",
+            data: result.data,
+            mimeType: format === "png" ? "image/png" : "image/jpeg",
+          },
+          {
+            type: "text",
+            text: JSON.stringify({
+              width: plan.width,
+              height: plan.height,
+              scale: Number(plan.clip.scale.toFixed(3)),
+              clip: { x: plan.clip.x, y: plan.clip.y, width: plan.clip.width, height: plan.clip.height },
+              ...(plan.note && { note: plan.note }),
+              ...(annotations && { highlighted: annotations.length }),
+              ...(annotations && annotate && { annotations }),
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Visual Regression Helpers ---
+
+/** Capture at scale 1 and work out the baseline key for the current viewport. */
+async function captureForBaseline(
+  client: CDP.Client,
+  name: string,
+  selector: string | undefined,
+  fullPage: boolean,
+): Promise<{ png: Buffer; key: BaselineKey }> {
+  const { area, devicePixelRatio } = await captureArea(client, { selector, fullPage });
+  const plan = planScreenshot(area, devicePixelRatio, { scale: 1 });
+  const result = await client.Page.captureScreenshot({
+    format: "png",
+    clip: plan.clip,
+    captureBeyondViewport: fullPage || selector !== undefined,
+  });
+  const { cssLayoutViewport } = await client.Page.getLayoutMetrics();
+  return {
+    png: Buffer.from(result.data, "base64"),
+    key: {
+      name,
+      viewport: { width: cssLayoutViewport.clientWidth, height: cssLayoutViewport.clientHeight },
+      devicePixelRatio,
+      ...(selector !== undefined && { selector }),
+    },
+  };
+}
+
+// --- Tool: save_baseline ---
+
+server.tool(
+  "save_baseline",
+  "Capture a screenshot and store it as a named visual baseline for compare_screenshot. Baselines are keyed by name, viewport size and selector",
+  {
+    name: z.string().describe("Baseline name (e.g. 'checkout-form')"),
+    selector: z.string().optional().describe("Capture only the element matching this CSS selector"),
+    fullPage: z.boolean().optional().default(false).describe("Capture the whole scrollable page (default: false)"),
+    overwrite: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Replace an existing baseline with the same key (default: true)"),
+  },
+  async ({ name, selector, fullPage, overwrite }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const { png, key } = await captureForBaseline(client, name, selector, fullPage);
+      const path = baselinePath(key);
+      await mkdir(dirname(path), { recursive: true });
+      try {
+        await writeFile(path, png, { flag: overwrite ? "w" : "wx" });
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+          throw new Error(`Baseline already exists at ${path}. Pass overwrite: true to replace it.`);
+        }
+        throw err;
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ success: true, path, viewport: key.viewport, bytes: png.length }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: compare_screenshot ---
+
+server.tool(
+  "compare_screenshot",
+  "Capture a screenshot and pixel-diff it against a saved baseline. Returns the mismatch percentage, changed regions and a diff image",
+  {
+    name: z.string().describe("Baseline name used with save_baseline"),
+    selector: z.string().optional().describe("Same selector the baseline was saved with"),
+    fullPage: z.boolean().optional().default(false).describe("Capture the whole scrollable page (default: false)"),
+    threshold: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .default(0.1)
+      .describe("Per-pixel color tolerance 0-1; lower is stricter (default: 0.1)"),
+    max_mismatch_percent: z
+      .number()
+      .min(0)
+      .optional()
+      .default(0)
+      .describe("Mismatch percentage still reported as a match (default: 0)"),
+  },
+  async ({ name, selector, fullPage, threshold, max_mismatch_percent }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const { png, key } = await captureForBaseline(client, name, selector, fullPage);
+      const path = baselinePath(key);
+      let baseline: Buffer;
+      try {
+        baseline = await readFile(path);
+      } catch {
+        throw new Error(`No baseline at ${path} for this name, viewport and selector. Run save_baseline first.`);
+      }
+
+      const { diff, ...result } = comparePngs(baseline, png, { threshold });
+      const summary = {
+        match: !result.size_changed && result.mismatch_percent <= max_mismatch_percent,
+        baseline: path,
+        ...result,
+      };
+
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(summary, null, 2) },
+          ...(result.mismatched_pixels > 0
+            ? [{ type: "image" as const, data: diff.toString("base64"), mimeType: "image/png" }]
+            : []),
+        ],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Navigation Helpers ---
+
+const waitParams = {
+  waitUntil: z
+    .enum(WAIT_UNTIL)
+    .optional()
+    .default("load")
+    .describe("When to return: commit, DOMContentLoaded, load, or networkidle (no requests for 500ms after load). Default: load"),
+  selector: z.string().optional().describe("Also wait until this CSS selector matches an element"),
+  timeout_ms: z
+    .number()
+    .optional()
+    .default(DEFAULT_NAVIGATION_TIMEOUT_MS)
+    .describe(`Maximum time to wait in ms (default: ${DEFAULT_NAVIGATION_TIMEOUT_MS})`),
+};
+
+// --- Tool: navigate ---
+
+server.tool(
+  "navigate",
+  "Go to a URL, go back or forward, or list the tab's history. Waits until the page reaches the requested load state",
+  {
+    action: z
+      .enum(["url", "back", "forward", "history"])
+      .optional()
+      .default("url")
+      .describe("url: load `url`; back/forward: move through history; history: list entries without navigating (default: url)"),
+    url: z.string().optional().describe("URL to load (action: url)"),
+    ...waitParams,
+  },
+  async ({ action, url, waitUntil, selector, timeout_ms }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      if (action === "history") {
+        const entries = await getHistory(client);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ count: entries.length, entries }, null, 2) }],
+        };
+      }
+
+      let trigger: () => Promise<void>;
+      if (action === "url") {
+        if (!url) {
+          return {
+            content: [{ type: "text", text: JSON.stringify({ error: "url is required for action \"url\"" }, null, 2) }],
+          };
+        }
+        trigger = async () => {
+          const result = await client.Page.navigate({ url });
+          if (result.errorText) {
+            throw new Error(`Navigation to ${url} failed: ${result.errorText}`);
+          }
+        };
+      } else {
+        const entry = await historyEntryAt(client, action === "back" ? -1 : 1);
+        trigger = async () => {
+          await client.Page.navigateToHistoryEntry({ entryId: entry.id });
+        };
+      }
+
+      const result = await navigateAndWait(cdpClient, client, trigger, { waitUntil, selector, timeoutMs: timeout_ms });
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, action, waitUntil, ...result }, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: reload_page ---
+
+server.tool(
+  "reload_page",
+  "Reload the current page (optionally bypass cache) and wait until it reaches the requested load state",
+  {
+    ignoreCache: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Bypass cache (hard refresh) when true (default: false)"),
+    ...waitParams,
+  },
+  async ({ ignoreCache, waitUntil, selector, timeout_ms }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const result = await navigateAndWait(
+        cdpClient,
+        client,
+        async () => { await client.Page.reload({ ignoreCache }); },
+        { waitUntil, selector, timeoutMs: timeout_ms },
+      );
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ success: true, ignoreCache, waitUntil, ...result }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: get_network_request_detail ---
+
+server.tool(
+  "get_network_request_detail",
+  "Get headers and full request and response body for a specific network request by ID",
+  {
+    requestId: z.string().describe("Request ID from get_network_requests output"),
+  },
+  async ({ requestId }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    // Find the request summary from the buffer
+    const entries = cdpClient.networkRequests.peek();
+    const entry = entries.find((e) => e.id === requestId)
+      ?? cdpClient.getPendingRequests().find((e) => e.id === requestId);
+
+    const detail: Record<string, unknown> = {
+      requestId,
+      summary: entry ?? null,
+    };
 
     // Get response body
     try {
-      const resp = await client.Network.getResponseBody({ requestId });
-      let body = resp.base64Encoded
-        ? Buffer.from(resp.body, "base64").toString("utf-8")
-        : resp.body;
+      const resp = await client.Network.getResponseBody({ requestId });
+      let body = resp.base64Encoded
+        ? Buffer.from(resp.body, "base64").toString("utf-8")
+        : resp.body;
+
+      if (body.length > MAX_BODY_SIZE) {
+        body = body.slice(0, MAX_BODY_SIZE);
+        detail.responseBodyTruncated = true;
+      }
+      detail.responseBody = body;
+    } catch {
+      detail.responseBody = null;
+      detail.responseBodyError = "Response body not available (may have been evicted from browser memory)";
+    }
+
+    // Get request POST data
+    try {
+      const req = await client.Network.getRequestPostData({ requestId });
+      let postData = req.postData;
+      if (postData.length > MAX_BODY_SIZE) {
+        postData = postData.slice(0, MAX_BODY_SIZE);
+        detail.requestBodyTruncated = true;
+      }
+      detail.requestBody = postData;
+    } catch {
+      // Not all requests have POST data — this is expected for GET requests
+      detail.requestBody = null;
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify(detail, null, 2),
+      }],
+    };
+  },
+);
+
+// --- Tool: export_har ---
+
+server.tool(
+  "export_har",
+  "Export captured network traffic to a HAR 1.2 file (Authorization/Cookie headers redacted by default)",
+  {
+    path: z.string().describe("File path to write (relative paths resolve against the server's cwd)"),
+    filter: z
+      .string()
+      .optional()
+      .describe("URL substring filter — only export requests matching this string"),
+    include_bodies: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Fetch request and response bodies from the browser (default: false)"),
+    redact: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Redact Authorization, Proxy-Authorization, Cookie and Set-Cookie values (default: true)"),
+  },
+  async ({ path, filter, include_bodies, redact }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    // Non-destructive — exporting shouldn't consume the buffer
+    const entries = filterNetworkEntries(cdpClient.networkRequests.peek(), { url: filter });
+
+    let bodies: HarBodies | undefined;
+    let bodiesUnavailable = 0;
+    if (include_bodies) {
+      bodies = { response: new Map(), request: new Map() };
+      for (const entry of entries) {
+        if (entry.state !== "complete") continue;
+        try {
+          const resp = await client.Network.getResponseBody({ requestId: entry.id });
+          bodies.response.set(entry.id, { text: resp.body, base64Encoded: resp.base64Encoded });
+        } catch {
+          // Evicted from browser memory, or a request without a body (redirect, 204…)
+          bodiesUnavailable++;
+        }
+        try {
+          const req = await client.Network.getRequestPostData({ requestId: entry.id });
+          bodies.request.set(entry.id, req.postData);
+        } catch {
+          // Not all requests have POST data — this is expected for GET requests
+        }
+      }
+    }
+
+    const har = buildHar(entries, { creatorVersion: SERVER_VERSION, redact, bodies });
+    const outPath = resolve(path);
+
+    try {
+      await mkdir(dirname(outPath), { recursive: true });
+      await writeFile(outPath, JSON.stringify(har, null, 2), "utf-8");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: `Failed to write HAR: ${message}` }, null, 2) }],
+      };
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          success: true,
+          path: outPath,
+          entries: har.log.entries.length,
+          redacted: redact,
+          ...(include_bodies && { bodies_unavailable: bodiesUnavailable }),
+        }, null, 2),
+      }],
+    };
+  },
+);
+
+// --- Tool: add_mock_rule ---
+
+server.tool(
+  "add_mock_rule",
+  "Intercept matching requests and fulfill them with a canned response, delay them, fail them, or modify their headers. Rules survive reconnects; first matching rule wins",
+  {
+    url_pattern: z.string().describe("URL substring, or a glob when it contains * (e.g. '*/api/save*')"),
+    method: z.string().optional().describe("Only match this HTTP method (e.g. 'POST')"),
+    resource_type: z.string().optional().describe("Only match this resource type (e.g. 'Fetch', 'XHR', 'Document')"),
+    action: z.enum(MOCK_ACTIONS).describe("fulfill: canned response; delay: wait then pass through; fail: network error; modify_headers: change request headers"),
+    status: z.number().int().optional().describe("fulfill: HTTP status (default: 200)"),
+    headers: z.record(z.string()).optional().describe("fulfill: response headers (Content-Type is guessed from the body if omitted)"),
+    body: z.string().optional().describe("fulfill: response body (e.g. '[]' for an empty list)"),
+    delay_ms: z.number().int().min(0).optional().describe("Delay before acting — required for delay, optional for the other actions"),
+    error_reason: z.enum(MOCK_ERROR_REASONS).optional().describe("fail: network error reason (default: Failed)"),
+    request_headers: z.record(z.string()).optional().describe("modify_headers: request headers to add or override"),
+  },
+  async (input) => {
+    if (input.action === "delay" && !input.delay_ms) {
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: "delay_ms is required for the delay action." }, null, 2) }],
+      };
+    }
+    if (input.action === "modify_headers" && !input.request_headers) {
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: "request_headers is required for the modify_headers action." }, null, 2) }],
+      };
+    }
+
+    try {
+      await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const rule = await mockManager.add(input);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, rule }, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: list_mock_rules ---
+
+server.tool(
+  "list_mock_rules",
+  "List active request mock rules and how many requests each has matched",
+  {},
+  async () => {
+    const rules = mockManager.list();
+    return {
+      content: [{ type: "text", text: JSON.stringify({ count: rules.length, rules }, null, 2) }],
+    };
+  },
+);
+
+// --- Tool: remove_mock_rule ---
+
+server.tool(
+  "remove_mock_rule",
+  "Remove a request mock rule by ID, or all rules when no ID is given",
+  {
+    id: z.string().optional().describe("Rule ID from add_mock_rule or list_mock_rules (omit to remove all)"),
+  },
+  async ({ id }) => {
+    try {
+      const removed = await mockManager.remove(id);
+      if (id !== undefined && removed === 0) {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ error: `No mock rule with id "${id}".` }, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, removed }, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: emulate_network ---
+
+server.tool(
+  "emulate_network",
+  "Throttle the network (Slow 3G, Fast 3G, offline or custom), disable the cache, or block URLs. Settings persist across reconnects until reset",
+  {
+    preset: z
+      .enum(THROTTLING_PRESETS)
+      .optional()
+      .describe("Throttling preset: none, slow_3g, fast_3g, offline, or custom (requires latency_ms, download_kbps or upload_kbps)"),
+    latency_ms: z.number().min(0).optional().describe("Custom added round-trip latency in ms"),
+    download_kbps: z.number().min(0).optional().describe("Custom download throughput in kbit/s (0 = unlimited)"),
+    upload_kbps: z.number().min(0).optional().describe("Custom upload throughput in kbit/s (0 = unlimited)"),
+    cache_disabled: z.boolean().optional().describe("Disable the HTTP cache"),
+    blocked_urls: z
+      .array(z.string())
+      .optional()
+      .describe("URL patterns to block, * wildcards allowed (e.g. ['*analytics*']); [] clears"),
+    reset: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Restore normal conditions before applying anything else (default: false)"),
+  },
+  async ({ preset, latency_ms, download_kbps, upload_kbps, cache_disabled, blocked_urls, reset }) => {
+    try {
+      await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      if (reset) {
+        await networkEmulator.reset();
+      }
+      const conditions = await networkEmulator.update({
+        preset, latency_ms, download_kbps, upload_kbps, cache_disabled, blocked_urls,
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, conditions }, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: emulate_device ---
+
+server.tool(
+  "emulate_device",
+  `Emulate a device or environment: viewport, pixel ratio, mobile/touch, user agent, prefers-color-scheme, prefers-reduced-motion, timezone, locale and geolocation. Presets: ${DEVICE_PRESETS.join(", ")}. Settings persist across reconnects until reset`,
+  {
+    device: z.enum(DEVICE_PRESETS).optional().describe("Device preset (sets viewport, pixel ratio, mobile, touch and user agent)"),
+    width: z.number().int().min(1).optional().describe("Viewport width in CSS pixels"),
+    height: z.number().int().min(1).optional().describe("Viewport height in CSS pixels"),
+    device_scale_factor: z.number().min(0).optional().describe("Device pixel ratio (0 = browser default)"),
+    mobile: z.boolean().optional().describe("Emulate a mobile browser (meta viewport, overlay scrollbars)"),
+    touch: z.boolean().optional().describe("Enable touch events"),
+    user_agent: z.string().nullable().optional().describe("User agent string (null restores the default)"),
+    color_scheme: z.enum(COLOR_SCHEMES).nullable().optional().describe("prefers-color-scheme (null restores the default)"),
+    reduced_motion: z.enum(REDUCED_MOTION).nullable().optional().describe("prefers-reduced-motion (null restores the default)"),
+    timezone: z.string().nullable().optional().describe("IANA timezone, e.g. 'America/New_York' (null restores the default)"),
+    locale: z.string().nullable().optional().describe("Locale, e.g. 'de-DE' (null restores the default)"),
+    geolocation: z
+      .object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+        accuracy: z.number().min(0).optional(),
+      })
+      .nullable()
+      .optional()
+      .describe("Position reported to navigator.geolocation (null clears)"),
+    reset: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Clear all emulation before applying anything else (default: false)"),
+  },
+  async ({ reset, ...update }) => {
+    try {
+      await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      if (reset) {
+        await deviceEmulator.reset();
+      }
+      const emulation = await deviceEmulator.update(update);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, emulation }, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: get_performance_metrics ---
+
+server.tool(
+  "get_performance_metrics",
+  "Measure page performance: Core Web Vitals (LCP, CLS, INP, FCP, TTFB, TBT), navigation timing, long tasks, and Chrome's runtime counters (JS heap, DOM nodes, layout/style recalcs, script time). Optionally reload first to measure a fresh load. Keys are stable so runs can be compared before and after a change",
+  {
+    reload: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Reload the page and measure the fresh load instead of the current page state (default: false)"),
+    ignoreCache: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("With reload: bypass the cache, like a hard refresh (default: false)"),
+    waitUntil: z
+      .enum(WAIT_UNTIL)
+      .optional()
+      .default("load")
+      .describe("With reload: load state to wait for before measuring (default: load)"),
+    settle_ms: z
+      .number()
+      .min(0)
+      .optional()
+      .default(1000)
+      .describe("With reload: extra time to let late paints, layout shifts and long tasks land before measuring (default: 1000)"),
+    timeout_ms: z
+      .number()
+      .optional()
+      .default(DEFAULT_NAVIGATION_TIMEOUT_MS)
+      .describe(`With reload: maximum time to wait for the page in ms (default: ${DEFAULT_NAVIGATION_TIMEOUT_MS})`),
+  },
+  async ({ reload, ignoreCache, waitUntil, settle_ms, timeout_ms }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      if (reload) {
+        await navigateAndWait(
+          cdpClient,
+          client,
+          async () => { await client.Page.reload({ ignoreCache }); },
+          { waitUntil, timeoutMs: timeout_ms },
+        );
+        await new Promise((r) => setTimeout(r, settle_ms));
+      }
+
+      const report = await collectPerformance(client);
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            ...report,
+            measured: reload ? `fresh load${ignoreCache ? " (cache bypassed)" : ""}` : "current page",
+            // Throttling and device emulation change the numbers, so record them alongside
+            conditions: {
+              network: networkEmulator.isActive() ? networkEmulator.getConditions() : "default",
+              device: deviceEmulator.isActive() ? deviceEmulator.getState().device ?? "custom" : "default",
+            },
+            ...(report.metrics.inp_ms === null && {
+              note: "inp_ms is null until the page has handled an interaction (click, tap or key press)",
+            }),
+          }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: start_profile ---
+
+server.tool(
+  "start_profile",
+  "Start a JavaScript CPU profile of the page. Reproduce the slow interaction, then call stop_profile",
+  {
+    name: z.string().optional().describe("File name for the profile (default: profile-<timestamp>)"),
+    sampling_interval_us: z
+      .number()
+      .int()
+      .min(10)
+      .optional()
+      .default(200)
+      .describe("Microseconds between samples; smaller is more precise but heavier (default: 200)"),
+  },
+  async ({ name, sampling_interval_us }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      await profileRecorder.startProfile(client, { name, samplingIntervalUs: sampling_interval_us });
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, profiling: true }, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: stop_profile ---
+
+server.tool(
+  "stop_profile",
+  "Stop the CPU profile, save it as a .cpuprofile file (opens in DevTools) and summarize the functions with the most self time, with source-mapped locations",
+  {
+    limit: z.number().int().min(1).optional().default(15).describe("Number of top functions to list (default: 15)"),
+  },
+  async ({ limit }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const result = await profileRecorder.stopProfile(client, limit);
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: start_trace ---
+
+server.tool(
+  "start_trace",
+  "Start a performance trace (what the DevTools Performance panel records: tasks, scripts, style, layout, paint). Reproduce the slow interaction, then call stop_trace",
+  {
+    name: z.string().optional().describe("File name for the trace (default: trace-<timestamp>)"),
+    categories: z
+      .array(z.string())
+      .optional()
+      .describe("Trace categories to record (default: the DevTools Performance panel set)"),
+  },
+  async ({ name, categories }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      await profileRecorder.startTrace(client, { name, categories: categories ?? DEFAULT_TRACE_CATEGORIES });
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, tracing: true }, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: stop_trace ---
+
+server.tool(
+  "stop_trace",
+  "Stop the trace, save it as a JSON file (loads in the DevTools Performance panel) and summarize the longest main-thread tasks and what they spent time on, with source-mapped locations",
+  {
+    limit: z.number().int().min(1).optional().default(10).describe("Number of long tasks and top activities to list (default: 10)"),
+    long_task_ms: z
+      .number()
+      .min(0)
+      .optional()
+      .default(50)
+      .describe("Tasks at least this long count as long tasks (default: 50)"),
+  },
+  async ({ limit, long_task_ms }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const result = await profileRecorder.stopTrace(client, { limit, longTaskMs: long_task_ms });
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: memory_snapshot ---
+
+server.tool(
+  "memory_snapshot",
+  "Take a JavaScript heap snapshot (after garbage collection), save it as a .heapsnapshot file (opens in DevTools) and summarize total size, the constructors retaining the most memory, and detached DOM nodes",
+  {
+    name: z.string().optional().describe("Name for the snapshot, used by compare_memory and as the file name (default: heap-<timestamp>)"),
+    limit: z.number().int().min(1).optional().default(20).describe("Number of top constructors to list (default: 20)"),
+  },
+  async ({ name, limit }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const { name: snapshotName, file, summary } = await memoryInspector.takeSnapshot(client, name);
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            name: snapshotName,
+            file,
+            total_size_bytes: summary.total_size,
+            node_count: summary.node_count,
+            detached_dom_nodes: summary.detached_dom_nodes,
+            detached_by_constructor: topConstructors(summary, 10, (c) => c.startsWith("Detached "))
+              .map(({ constructor, count, retained_size }) => ({ constructor, count, retained_size })),
+            top_constructors: topConstructors(summary, limit),
+          }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: compare_memory ---
+
+server.tool(
+  "compare_memory",
+  "Diff two heap snapshots taken around an action: change in total size and detached DOM nodes, and the constructors that grew or shrank. Repeat the action a few times between snapshots to tell a leak from one-off caching",
+  {
+    before: z.string().describe("Snapshot name from memory_snapshot, or a .heapsnapshot file path"),
+    after: z
+      .string()
+      .optional()
+      .describe("Snapshot name or file path to compare against (default: take a new snapshot now)"),
+    limit: z.number().int().min(1).optional().default(15).describe("Number of grown and shrunk constructors to list (default: 15)"),
+  },
+  async ({ before, after, limit }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const beforeSummary = await memoryInspector.getSummary(before);
+      let afterName = after;
+      let afterSummary: HeapSummary;
+      if (after !== undefined) {
+        afterSummary = await memoryInspector.getSummary(after);
+      } else {
+        const taken = await memoryInspector.takeSnapshot(client);
+        afterName = taken.name;
+        afterSummary = taken.summary;
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            before: { name: before, total_size_bytes: beforeSummary.total_size, detached_dom_nodes: beforeSummary.detached_dom_nodes },
+            after: { name: afterName, total_size_bytes: afterSummary.total_size, detached_dom_nodes: afterSummary.detached_dom_nodes },
+            ...compareHeapSummaries(beforeSummary, afterSummary, limit),
+          }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: start_coverage ---
+
+server.tool(
+  "start_coverage",
+  "Start recording which JavaScript (block-level) and CSS rules the page uses. Exercise the flow, then call stop_coverage. Code that ran before this call counts as unused unless you reload",
+  {
+    css: z.boolean().optional().default(true).describe("Also track CSS rule usage (default: true)"),
+    reload: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Reload the page after starting so code run during page load is recorded (default: false)"),
+    waitUntil: z
+      .enum(WAIT_UNTIL)
+      .optional()
+      .default("load")
+      .describe("With reload: load state to wait for (default: load)"),
+    timeout_ms: z
+      .number()
+      .optional()
+      .default(DEFAULT_NAVIGATION_TIMEOUT_MS)
+      .describe(`With reload: maximum time to wait for the page in ms (default: ${DEFAULT_NAVIGATION_TIMEOUT_MS})`),
+  },
+  async ({ css, reload, waitUntil, timeout_ms }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      await coverageRecorder.start(client, { css });
+      if (reload) {
+        await navigateAndWait(
+          cdpClient,
+          client,
+          async () => { await client.Page.reload({}); },
+          { waitUntil, timeoutMs: timeout_ms },
+        );
+      }
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, recording: true, css, reloaded: reload }, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: stop_coverage ---
+
+server.tool(
+  "stop_coverage",
+  "Stop recording coverage and report used/unused bytes per script and stylesheet, split by original source file where source maps are available. Optionally write istanbul-compatible JSON",
+  {
+    limit: z.number().int().min(1).optional().default(20).describe("Number of scripts, stylesheets and sources per file to list, most unused first (default: 20)"),
+    istanbul_path: z
+      .string()
+      .optional()
+      .describe("Write istanbul coverage JSON (coverage-final.json format, line and function coverage) to this path"),
+    source_root: z
+      .string()
+      .optional()
+      .describe("Project directory that script URL paths are resolved against for istanbul file paths (default: the working directory)"),
+  },
+  async ({ limit, istanbul_path, source_root }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const istanbul = istanbul_path ? new IstanbulCollector() : undefined;
+      const report = await coverageRecorder.stop(client, { limit, istanbul });
+
+      let istanbulFile: string | undefined;
+      if (istanbul && istanbul_path) {
+        istanbulFile = resolve(istanbul_path);
+        const root = resolve(source_root ?? ".");
+        await mkdir(dirname(istanbulFile), { recursive: true });
+        await writeFile(istanbulFile, JSON.stringify(istanbul.toJSON((url) => localPath(url, root))));
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ ...report, ...(istanbulFile && { istanbul_file: istanbulFile }) }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: set_breakpoint ---
+
+server.tool(
+  "set_breakpoint",
+  "Pause execution at a source line. The URL may be a full script URL or a path suffix like src/app.ts; original sources are mapped to bundled code through source maps. Breakpoints survive reloads and reconnects",
+  {
+    url: z.string().describe("Script URL or path suffix (e.g. 'src/components/Cart.tsx' or 'http://localhost:5173/app.js')"),
+    line: z.number().int().min(1).describe("1-based line number"),
+    column: z.number().int().min(1).optional().describe("1-based column, for minified or multi-statement lines"),
+    condition: z.string().optional().describe("Only pause when this expression is truthy in the paused scope"),
+  },
+  async ({ url, line, column, condition }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const breakpoint = await debuggerManager.setBreakpoint(client, { url, line, column, condition });
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            breakpoint,
+            ...(breakpoint.resolved_locations === 0 && {
+              note: "No loaded script matches yet — the breakpoint binds when one loads. Check the URL if it never resolves.",
+            }),
+          }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: remove_breakpoint ---
+
+server.tool(
+  "remove_breakpoint",
+  "Remove a breakpoint by id, or all breakpoints when no id is given",
+  {
+    id: z.string().optional().describe("Breakpoint id from set_breakpoint (e.g. 'bp-1'); omit to remove all"),
+  },
+  async ({ id }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const removed = await debuggerManager.removeBreakpoint(client, "breakpoint", id);
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ removed, remaining: debuggerManager.listBreakpoints("breakpoint") }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: get_paused_state ---
+
+server.tool(
+  "get_paused_state",
+  "When execution is paused, return why, the source-mapped call stack and the variables in scope of a frame, optionally evaluating an expression there. When running, list breakpoints and the exception setting",
+  {
+    frame: z.number().int().min(0).optional().default(0).describe("Call stack frame to inspect, 0 = innermost (default: 0)"),
+    expression: z.string().optional().describe("Evaluate this expression in the frame's scope"),
+    include_globals: z.boolean().optional().default(false).describe("Also list the global scope (default: false — it is huge)"),
+  },
+  async ({ frame, expression, include_globals }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const state = await debuggerManager.getPausedState(client, { frame, expression, includeGlobals: include_globals });
+      const result = state.paused
+        ? state
+        : {
+          ...state,
+          breakpoints: debuggerManager.listBreakpoints("breakpoint"),
+          pause_on_exceptions: debuggerManager.getPauseOnExceptions(),
+        };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: step ---
+
+server.tool(
+  "step",
+  "Step the paused debugger over, into or out of the current call and return the new paused state",
+  {
+    action: z.enum(STEP_ACTIONS).optional().default("over").describe("over: next line; into: enter the called function; out: finish the current function (default: over)"),
+    timeout_ms: z
+      .number()
+      .optional()
+      .default(5000)
+      .describe("How long to wait for execution to pause again before reporting it as running (default: 5000)"),
+  },
+  async ({ action, timeout_ms }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
 
-      if (body.length > MAX_BODY_SIZE) {
-        body = body.slice(0, MAX_BODY_SIZE);
-        detail.responseBodyTruncated = true;
-      }
-      detail.responseBody = body;
-    } catch {
-      detail.responseBody = null;
-      detail.responseBodyError = "Response body not available (may have been evicted from browser memory)";
+    try {
+      const state = await debuggerManager.step(client, action, timeout_ms);
+      return {
+        content: [{ type: "text", text: JSON.stringify(state, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
     }
+  },
+);
 
-    // Get request POST data
+// --- Tool: resume ---
+
+server.tool(
+  "resume",
+  "Resume execution after a breakpoint or exception pause",
+  {},
+  async () => {
+    let client: CDP.Client;
     try {
-      const req = await client.Network.getRequestPostData({ requestId });
-      let postData = req.postData;
-      if (postData.length > MAX_BODY_SIZE) {
-        postData = postData.slice(0, MAX_BODY_SIZE);
-        detail.requestBodyTruncated = true;
-      }
-      detail.requestBody = postData;
-    } catch {
-      // Not all requests have POST data — this is expected for GET requests
-      detail.requestBody = null;
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      await debuggerManager.resume(client);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ resumed: true }, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: pause_on_exceptions ---
+
+server.tool(
+  "pause_on_exceptions",
+  "Choose whether thrown exceptions pause execution: none, only uncaught, or all (including caught). Persists across reloads",
+  {
+    state: z.enum(PAUSE_ON_EXCEPTIONS).describe("none, uncaught or all"),
+  },
+  async ({ state }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      await debuggerManager.setPauseOnExceptions(client, state);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ pause_on_exceptions: state }, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: add_logpoint ---
+
+server.tool(
+  "add_logpoint",
+  "Log an expression every time a source line runs, without editing code or pausing. Output lands in get_console_logs tagged with the logpoint id. The URL may be a script URL or a path suffix; original sources are mapped through source maps",
+  {
+    url: z.string().describe("Script URL or path suffix (e.g. 'src/components/Cart.tsx')"),
+    line: z.number().int().min(1).describe("1-based line number"),
+    column: z.number().int().min(1).optional().describe("1-based column, for minified or multi-statement lines"),
+    expression: z.string().describe("What to log, evaluated in the line's scope — one expression or several separated by commas (e.g. 'item.id, cart.total')"),
+    condition: z.string().optional().describe("Only log when this expression is truthy"),
+  },
+  async ({ url, line, column, expression, condition }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const logpoint = await debuggerManager.setBreakpoint(client, { kind: "logpoint", url, line, column, expression, condition });
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            logpoint,
+            ...(logpoint.resolved_locations === 0 && {
+              note: "No loaded script matches yet — the logpoint binds when one loads. Check the URL if it never resolves.",
+            }),
+          }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: list_logpoints ---
+
+server.tool(
+  "list_logpoints",
+  "List active logpoints with what they log and how many loaded scripts they are bound in",
+  {},
+  async () => {
+    const logpoints = debuggerManager.listBreakpoints("logpoint");
+    return {
+      content: [{ type: "text", text: JSON.stringify({ count: logpoints.length, logpoints }, null, 2) }],
+    };
+  },
+);
+
+// --- Tool: remove_logpoint ---
+
+server.tool(
+  "remove_logpoint",
+  "Remove a logpoint by id, or all logpoints when no id is given",
+  {
+    id: z.string().optional().describe("Logpoint id from add_logpoint or list_logpoints (e.g. 'lp-3'); omit to remove all"),
+  },
+  async ({ id }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    try {
+      const removed = await debuggerManager.removeBreakpoint(client, "logpoint", id);
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ removed, remaining: debuggerManager.listBreakpoints("logpoint") }, null, 2),
+        }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
     }
+  },
+);
+
+// --- Input Helpers ---
+
+const locatorParams = {
+  ref: z.number().optional().describe("Node ref from get_elements snapshot mode (takes precedence over selector and text)"),
+  selector: z.string().optional().describe("CSS selector of the target element"),
+  text: z.string().optional().describe("Visible text of the target element (used when no selector is given)"),
+  timeout_ms: z
+    .number()
+    .optional()
+    .default(DEFAULT_ACTION_TIMEOUT_MS)
+    .describe(`How long to wait for the element to be visible and enabled (default: ${DEFAULT_ACTION_TIMEOUT_MS})`),
+};
+
+/** Resolve the element, run the action, and always release the remote objects. */
+async function withElement(
+  locator: ElementLocator,
+  timeoutMs: number,
+  action: (client: CDP.Client, element: ActionableElement) => Promise<Record<string, unknown>>,
+): Promise<{ content: [{ type: "text"; text: string }] }> {
+  let client: CDP.Client;
+  try {
+    client = await cdpClient.ensureConnected();
+  } catch (err) {
+    return connectionError(err);
+  }
+
+  if (locator.ref === undefined && locator.selector === undefined && locator.text === undefined) {
+    return {
+      content: [{ type: "text", text: JSON.stringify({ error: "Provide a ref, selector or text to locate the element" }, null, 2) }],
+    };
+  }
+
+  if (debuggerManager.isPaused()) return alreadyPausedError();
 
+  try {
+    const element = await resolveActionable(client, locator, timeoutMs);
+    const outcome = await debuggerManager.untilPaused(action(client, element));
+    if (outcome.paused) return pausedResult();
+    const result = outcome.value;
     return {
       content: [{
         type: "text",
-        text: JSON.stringify(detail, null, 2),
+        text: JSON.stringify({
+          success: true,
+          element: element.description,
+          ...result,
+          ...(element.obscuredBy && {
+            warning: `Element is covered by ${element.obscuredBy} at its center — the event may have gone there instead`,
+          }),
+        }, null, 2),
       }],
     };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+    };
+  } finally {
+    await releaseElements(client);
+  }
+}
+
+// --- Tool: click ---
+
+server.tool(
+  "click",
+  "Click an element found by ref, CSS selector or visible text. Waits for it to be visible and enabled, scrolls it into view and sends real mouse events",
+  {
+    ...locatorParams,
+    button: z.enum(["left", "right", "middle"]).optional().default("left").describe("Mouse button (default: left)"),
+    click_count: z.number().int().min(1).max(3).optional().default(1).describe("2 for a double click (default: 1)"),
+    modifiers: z.array(z.enum(MODIFIER_KEYS)).optional().describe("Modifier keys held during the click"),
+  },
+  async ({ ref, selector, text, timeout_ms, button, click_count, modifiers }) =>
+    withElement({ ref, selector, text }, timeout_ms, async (client, el) => {
+      await clickAt(client, el.x, el.y, { button, clickCount: click_count, modifiers: modifierMask(modifiers) });
+      return { x: Math.round(el.x), y: Math.round(el.y) };
+    }),
+);
+
+// --- Tool: hover ---
+
+server.tool(
+  "hover",
+  "Move the mouse over an element found by ref, CSS selector or visible text (triggers hover styles, tooltips and menus)",
+  locatorParams,
+  async ({ ref, selector, text, timeout_ms }) =>
+    withElement({ ref, selector, text }, timeout_ms, async (client, el) => {
+      await hoverAt(client, el.x, el.y);
+      return { x: Math.round(el.x), y: Math.round(el.y) };
+    }),
+);
+
+// --- Tool: type_text ---
+
+server.tool(
+  "type_text",
+  "Type into an element as real key presses. Clicks the element to focus it first; omit ref, selector and text to type into whatever has focus",
+  {
+    ...locatorParams,
+    value: z.string().describe("Text to type (\\n presses Enter)"),
+    clear: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Replace the element's existing content instead of appending (default: false)"),
+    press_enter: z.boolean().optional().default(false).describe("Press Enter after typing (default: false)"),
+  },
+  async ({ ref, selector, text, timeout_ms, value, clear, press_enter }) => {
+    const typeInto = async (client: CDP.Client) => {
+      await typeText(client, value);
+      if (press_enter) {
+        await pressKey(client, "Enter");
+      }
+    };
+
+    if (ref === undefined && selector === undefined && text === undefined) {
+      let client: CDP.Client;
+      try {
+        client = await cdpClient.ensureConnected();
+      } catch (err) {
+        return connectionError(err);
+      }
+      if (debuggerManager.isPaused()) return alreadyPausedError();
+      try {
+        const outcome = await debuggerManager.untilPaused(typeInto(client));
+        if (outcome.paused) return pausedResult();
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: true, element: "(focused element)", typed: value.length }, null, 2) }],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+        };
+      }
+    }
+
+    return withElement({ ref, selector, text }, timeout_ms, async (client, el) => {
+      await clickAt(client, el.x, el.y);
+      if (clear) {
+        await selectContents(client, el.objectId);
+        await pressKey(client, "Backspace");
+      }
+      await typeInto(client);
+      return { typed: value.length };
+    });
+  },
+);
+
+// --- Tool: press_key ---
+
+server.tool(
+  "press_key",
+  "Press a key or shortcut on the focused element (e.g. Enter, Escape, Tab, ArrowDown, or 'a' with modifiers ['Control'])",
+  {
+    key: z.string().describe("Key name (Enter, Tab, Escape, Backspace, Delete, Space, Arrow*, Home, End, PageUp, PageDown) or a single character"),
+    modifiers: z.array(z.enum(MODIFIER_KEYS)).optional().describe("Modifier keys to hold"),
+  },
+  async ({ key, modifiers }) => {
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    if (debuggerManager.isPaused()) return alreadyPausedError();
+    try {
+      const outcome = await debuggerManager.untilPaused(pressKey(client, key, modifiers));
+      if (outcome.paused) return pausedResult();
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, key, modifiers: modifiers ?? [] }, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: scroll_to ---
+
+server.tool(
+  "scroll_to",
+  "Scroll an element into view, or scroll the page by a pixel delta with the mouse wheel when no element is given",
+  {
+    ...locatorParams,
+    delta_x: z.number().optional().default(0).describe("Horizontal wheel delta in pixels when no element is given"),
+    delta_y: z.number().optional().default(0).describe("Vertical wheel delta in pixels when no element is given (positive scrolls down)"),
+  },
+  async ({ ref, selector, text, timeout_ms, delta_x, delta_y }) => {
+    if (ref !== undefined || selector !== undefined || text !== undefined) {
+      // resolveActionable already scrolls the element into view
+      return withElement({ ref, selector, text }, timeout_ms, async (_client, el) => ({
+        x: Math.round(el.x),
+        y: Math.round(el.y),
+      }));
+    }
+
+    let client: CDP.Client;
+    try {
+      client = await cdpClient.ensureConnected();
+    } catch (err) {
+      return connectionError(err);
+    }
+
+    if (debuggerManager.isPaused()) return alreadyPausedError();
+    try {
+      const { cssLayoutViewport } = await client.Page.getLayoutMetrics();
+      const outcome = await debuggerManager.untilPaused((async () => {
+        await scrollBy(
+          client,
+          cssLayoutViewport.clientWidth / 2,
+          cssLayoutViewport.clientHeight / 2,
+          delta_x,
+          delta_y,
+        );
+        return client.Runtime.evaluate({
+          expression: "({ x: window.scrollX, y: window.scrollY })",
+          returnByValue: true,
+        });
+      })());
+      if (outcome.paused) return pausedResult();
+      return {
+        content: [{ type: "text", text: JSON.stringify({ success: true, scroll: outcome.value.result.value }, null, 2) }],
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: message }, null, 2) }],
+      };
+    }
+  },
+);
+
+// --- Tool: select_option ---
+
+server.tool(
+  "select_option",
+  "Choose an option in a <select> by value or label, firing input and change events",
+  {
+    ...locatorParams,
+    value: z.string().optional().describe("Option value to select"),
+    label: z.string().optional().describe("Visible option label to select (used when value is not given)"),
+  },
+  async ({ ref, selector, text, timeout_ms, value, label }) => {
+    if (value === undefined && label === undefined) {
+      return {
+        content: [{ type: "text", text: JSON.stringify({ error: "Provide a value or label to select" }, null, 2) }],
+      };
+    }
+    return withElement({ ref, selector, text }, timeout_ms, async (client, el) => ({
+      selected: await selectOption(client, el.objectId, value ?? null, label ?? null),
+    }));
   },
 );
 
@@ -515,14 +2586,20 @@ server.tool(
   "Read stdout/stderr output from a managed server process",
   {
     id: z.string().describe("Server identifier passed to start_server"),
+    after: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Cursor from a previous next_cursor — return only newer lines and leave the buffer intact"),
     clear: z
       .boolean()
       .optional()
       .default(true)
-      .describe("Clear the log buffer after reading (default: true)"),
+      .describe("Clear the log buffer after reading (default: true; ignored when after is set)"),
   },
-  async ({ id, clear }) => {
-    const result = serverManager.getLogs(id, clear);
+  async ({ id, after, clear }) => {
+    const result = serverManager.getLogs(id, clear, after);
     return {
       content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
     };
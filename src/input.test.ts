@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import type CDP from "chrome-remote-interface";
+import { keyDefinition, modifierMask, typeText } from "./input.js";
+
+describe("keyDefinition", () => {
+  it("returns named keys with their key codes", () => {
+    expect(keyDefinition("Enter")).toEqual({ key: "Enter", code: "Enter", keyCode: 13, text: "\r" });
+    expect(keyDefinition("ArrowDown")).toMatchObject({ code: "ArrowDown", keyCode: 40 });
+    expect(keyDefinition("Escape")?.text).toBeUndefined();
+  });
+
+  it("maps letters and digits to physical key codes", () => {
+    expect(keyDefinition("a")).toEqual({ key: "a", code: "KeyA", keyCode: 65, text: "a" });
+    expect(keyDefinition("Z")).toEqual({ key: "Z", code: "KeyZ", keyCode: 90, text: "Z" });
+    expect(keyDefinition("7")).toEqual({ key: "7", code: "Digit7", keyCode: 55, text: "7" });
+  });
+
+  it("maps punctuation to its key on a US keyboard", () => {
+    expect(keyDefinition("@")).toEqual({ key: "@", code: "Digit2", keyCode: 50, text: "@" });
+    expect(keyDefinition(".")).toEqual({ key: ".", code: "Period", keyCode: 190, text: "." });
+    expect(keyDefinition("_")).toMatchObject({ code: "Minus", keyCode: 189 });
+    expect(keyDefinition("/")).toMatchObject({ code: "Slash", keyCode: 191 });
+  });
+
+  it("treats other single characters as text without a key code", () => {
+    expect(keyDefinition("é")).toEqual({ key: "é", code: "", keyCode: 0, text: "é" });
+    expect(keyDefinition("😀")).toMatchObject({ keyCode: 0, text: "😀" });
+  });
+
+  it("rejects unknown multi-character names", () => {
+    expect(keyDefinition("Enterr")).toBeNull();
+  });
+});
+
+describe("modifierMask", () => {
+  it("combines modifier bits", () => {
+    expect(modifierMask()).toBe(0);
+    expect(modifierMask(["Shift"])).toBe(8);
+    expect(modifierMask(["Control", "Alt"])).toBe(3);
+  });
+});
+
+describe("typeText", () => {
+  it("presses a key for each printable character and inserts the rest as text", async () => {
+    const events: string[] = [];
+    const client = {
+      Input: {
+        dispatchKeyEvent: async ({ type, key, text }: { type: string; key: string; text?: string }) => {
+          events.push(`${type} ${key}${text ? ` text=${text}` : ""}`);
+        },
+        insertText: async ({ text }: { text: string }) => {
+          events.push(`insert ${text}`);
+        },
+      },
+    } as unknown as CDP.Client;
+
+    await typeText(client, "a@.😀");
+    expect(events).toEqual([
+      "keyDown a text=a", "keyUp a",
+      "keyDown @ text=@", "keyUp @",
+      "keyDown . text=.", "keyUp .",
+      "insert 😀",
+    ]);
+  });
+});
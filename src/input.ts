@@ -0,0 +1,363 @@
+import type CDP from "chrome-remote-interface";
+import { resolveRef } from "./dom-snapshot.js";
+
+// --- Types ---
+
+/** How tools identify an element: a snapshot ref, a CSS selector or visible text. */
+export interface ElementLocator {
+  ref?: number;
+  selector?: string;
+  text?: string;
+}
+
+export interface ActionableElement {
+  objectId: string;
+  /** Viewport coordinates of the element's center (after scrolling it into view). */
+  x: number;
+  y: number;
+  description: string;
+  /** Set when another element sits on top of the target at its center. */
+  obscuredBy?: string;
+}
+
+export const MODIFIER_KEYS = ["Alt", "Control", "Meta", "Shift"] as const;
+export type ModifierKey = typeof MODIFIER_KEYS[number];
+
+interface KeyDefinition {
+  key: string;
+  code: string;
+  keyCode: number;
+  text?: string;
+}
+
+// --- Config ---
+
+export const DEFAULT_ACTION_TIMEOUT_MS = 5000;
+const POLL_INTERVAL_MS = 100;
+const OBJECT_GROUP = "relay-inspect-input";
+
+// --- Page Scripts ---
+
+/**
+ * Find an element by selector, or by visible text: exact matches beat partial
+ * ones, the first match in document order wins, narrowed to its innermost
+ * element with the same text, and a match inside a button/link/label
+ * resolves to that control.
+ */
+const FIND_ELEMENT = `(function(selector, text) {
+  if (selector) return document.querySelector(selector);
+  const needle = text.replace(/\\s+/g, " ").trim().toLowerCase();
+  const squashed = needle.replace(/ /g, "");
+  const labelOf = (el) => (el.innerText || el.getAttribute("aria-label") || el.getAttribute("placeholder")
+    || ((el.tagName === "INPUT" && (el.type === "submit" || el.type === "button")) ? el.value : "") || "")
+    .replace(/\\s+/g, " ").trim().toLowerCase();
+  // innerText forces layout, so rule elements out on their raw text first when no attribute could label them
+  const mayMatch = (el) => el.tagName === "INPUT" || el.hasAttribute("aria-label") || el.hasAttribute("placeholder")
+    || el.textContent.replace(/\\s+/g, "").toLowerCase().includes(squashed);
+  let exact = null;
+  let partial = null;
+  for (const el of document.body.querySelectorAll("*")) {
+    // Descendants follow their ancestor in document order — once past the exact match's subtree, nothing beats it
+    if (exact && !exact.contains(el)) break;
+    if (!mayMatch(el)) continue;
+    const label = labelOf(el);
+    if (!label.includes(needle)) continue;
+    // Keep descending — a deeper element with the same text is a better match
+    if (label === needle) exact = el;
+    else if (!exact && (!partial || partial.contains(el))) partial = el;
+  }
+  const match = exact || partial;
+  if (!match) return null;
+  return match.closest("button, a, label, summary, [role=button], [role=link], [role=menuitem], [role=tab], [role=option]") || match;
+})`;
+
+/** Describe visibility/enabled state of `this` for the actionability wait. */
+const ACTIONABILITY = `function() {
+  const style = getComputedStyle(this);
+  const rect = this.getBoundingClientRect();
+  const visible = rect.width > 0 && rect.height > 0 && style.visibility !== "hidden" && style.display !== "none" && Number(style.opacity) > 0;
+  const enabled = !this.disabled && this.getAttribute("aria-disabled") !== "true" && !this.closest("fieldset[disabled]");
+  let desc = this.tagName.toLowerCase();
+  if (this.id) desc += "#" + this.id;
+  if (typeof this.className === "string" && this.className.trim()) desc += "." + this.className.trim().split(/\\s+/).slice(0, 3).join(".");
+  const text = (this.innerText || this.value || "").replace(/\\s+/g, " ").trim();
+  if (text) desc += ' "' + text.slice(0, 40) + '"';
+  return { visible, enabled, desc };
+}`;
+
+/** Report what the pointer would actually hit at (x, y), if it isn't `this`. */
+const HIT_TEST = `function(x, y) {
+  const hit = document.elementFromPoint(x, y);
+  if (!hit || hit === this || this.contains(hit) || hit.contains(this)) return null;
+  let desc = hit.tagName.toLowerCase();
+  if (hit.id) desc += "#" + hit.id;
+  if (typeof hit.className === "string" && hit.className.trim()) desc += "." + hit.className.trim().split(/\\s+/).slice(0, 3).join(".");
+  return desc;
+}`;
+
+const SELECT_OPTION = `function(value, label) {
+  if (this.tagName !== "SELECT") return { error: "Element is not a <select>" };
+  const option = Array.from(this.options).find((o) =>
+    (value !== null && o.value === value) || (label !== null && o.label.trim() === label));
+  if (!option) return { error: "No option matches", options: Array.from(this.options).map((o) => ({ value: o.value, label: o.label })) };
+  this.focus();
+  this.value = option.value;
+  this.dispatchEvent(new Event("input", { bubbles: true }));
+  this.dispatchEvent(new Event("change", { bubbles: true }));
+  return { value: option.value, label: option.label };
+}`;
+
+/** Select existing content so the next keystroke replaces it. */
+const SELECT_CONTENTS = `function() {
+  this.focus();
+  if (typeof this.select === "function") { this.select(); return; }
+  const range = document.createRange();
+  range.selectNodeContents(this);
+  const selection = getSelection();
+  selection.removeAllRanges();
+  selection.addRange(range);
+}`;
+
+// --- Keys ---
+
+const NAMED_KEYS: Record<string, KeyDefinition> = {
+  Enter: { key: "Enter", code: "Enter", keyCode: 13, text: "\r" },
+  Tab: { key: "Tab", code: "Tab", keyCode: 9 },
+  Escape: { key: "Escape", code: "Escape", keyCode: 27 },
+  Backspace: { key: "Backspace", code: "Backspace", keyCode: 8 },
+  Delete: { key: "Delete", code: "Delete", keyCode: 46 },
+  Space: { key: " ", code: "Space", keyCode: 32, text: " " },
+  ArrowUp: { key: "ArrowUp", code: "ArrowUp", keyCode: 38 },
+  ArrowDown: { key: "ArrowDown", code: "ArrowDown", keyCode: 40 },
+  ArrowLeft: { key: "ArrowLeft", code: "ArrowLeft", keyCode: 37 },
+  ArrowRight: { key: "ArrowRight", code: "ArrowRight", keyCode: 39 },
+  Home: { key: "Home", code: "Home", keyCode: 36 },
+  End: { key: "End", code: "End", keyCode: 35 },
+  PageUp: { key: "PageUp", code: "PageUp", keyCode: 33 },
+  PageDown: { key: "PageDown", code: "PageDown", keyCode: 34 },
+};
+
+/** Punctuation on a US keyboard: the physical key and its Windows key code, shifted or not. */
+const PUNCTUATION_KEYS: Record<string, { code: string; keyCode: number }> = {
+  "`": { code: "Backquote", keyCode: 192 }, "~": { code: "Backquote", keyCode: 192 },
+  "-": { code: "Minus", keyCode: 189 }, "_": { code: "Minus", keyCode: 189 },
+  "=": { code: "Equal", keyCode: 187 }, "+": { code: "Equal", keyCode: 187 },
+  "[": { code: "BracketLeft", keyCode: 219 }, "{": { code: "BracketLeft", keyCode: 219 },
+  "]": { code: "BracketRight", keyCode: 221 }, "}": { code: "BracketRight", keyCode: 221 },
+  "\\": { code: "Backslash", keyCode: 220 }, "|": { code: "Backslash", keyCode: 220 },
+  ";": { code: "Semicolon", keyCode: 186 }, ":": { code: "Semicolon", keyCode: 186 },
+  "'": { code: "Quote", keyCode: 222 }, '"': { code: "Quote", keyCode: 222 },
+  ",": { code: "Comma", keyCode: 188 }, "<": { code: "Comma", keyCode: 188 },
+  ".": { code: "Period", keyCode: 190 }, ">": { code: "Period", keyCode: 190 },
+  "/": { code: "Slash", keyCode: 191 }, "?": { code: "Slash", keyCode: 191 },
+  "!": { code: "Digit1", keyCode: 49 }, "@": { code: "Digit2", keyCode: 50 },
+  "#": { code: "Digit3", keyCode: 51 }, "$": { code: "Digit4", keyCode: 52 },
+  "%": { code: "Digit5", keyCode: 53 }, "^": { code: "Digit6", keyCode: 54 },
+  "&": { code: "Digit7", keyCode: 55 }, "*": { code: "Digit8", keyCode: 56 },
+  "(": { code: "Digit9", keyCode: 57 }, ")": { code: "Digit0", keyCode: 48 },
+};
+
+const MODIFIER_BITS: Record<ModifierKey, number> = { Alt: 1, Control: 2, Meta: 4, Shift: 8 };
+
+/** Key definition for a named key (Enter, ArrowDown…) or a single printable character. */
+export function keyDefinition(key: string): KeyDefinition | null {
+  const named = key === " " ? NAMED_KEYS.Space : NAMED_KEYS[key];
+  if (named) return named;
+  if ([...key].length !== 1) return null;
+
+  const upper = key.toUpperCase();
+  if (/^[A-Z]$/.test(upper)) {
+    return { key, code: `Key${upper}`, keyCode: upper.charCodeAt(0), text: key };
+  }
+  if (/^[0-9]$/.test(key)) {
+    return { key, code: `Digit${key}`, keyCode: key.charCodeAt(0), text: key };
+  }
+  const punctuation = PUNCTUATION_KEYS[key];
+  if (punctuation) {
+    return { key, ...punctuation, text: key };
+  }
+  return { key, code: "", keyCode: 0, text: key };
+}
+
+export function modifierMask(modifiers: ModifierKey[] = []): number {
+  return modifiers.reduce((mask, m) => mask | MODIFIER_BITS[m], 0);
+}
+
+// --- Element Resolution ---
+
+/**
+ * Wait until the element exists, is visible and enabled, scroll it into view
+ * and return its center. Throws with the last observed state on timeout.
+ */
+export async function resolveActionable(
+  client: CDP.Client,
+  locator: ElementLocator,
+  timeoutMs = DEFAULT_ACTION_TIMEOUT_MS,
+): Promise<ActionableElement> {
+  const what = locator.ref !== undefined
+    ? `ref ${locator.ref}`
+    : locator.selector !== undefined ? `selector "${locator.selector}"` : `text "${locator.text}"`;
+  const deadline = Date.now() + timeoutMs;
+  let lastState = "not found";
+
+  while (true) {
+    let objectId: string | undefined;
+    if (locator.ref !== undefined) {
+      // A ref names one node; if it's gone, waiting won't bring it back
+      objectId = await resolveRef(client, locator.ref, OBJECT_GROUP);
+    } else {
+      const found = await client.Runtime.evaluate({
+        expression: `${FIND_ELEMENT}(${JSON.stringify(locator.selector ?? null)}, ${JSON.stringify(locator.text ?? "")})`,
+        objectGroup: OBJECT_GROUP,
+      });
+      if (found.exceptionDetails) {
+        throw new Error(`Invalid ${what}: ${found.exceptionDetails.exception?.description ?? found.exceptionDetails.text}`);
+      }
+      objectId = found.result.objectId;
+    }
+
+    if (objectId) {
+      const state = await client.Runtime.callFunctionOn({
+        objectId,
+        functionDeclaration: ACTIONABILITY,
+        returnByValue: true,
+      });
+      const { visible, enabled, desc } = state.result.value as { visible: boolean; enabled: boolean; desc: string };
+
+      if (visible && enabled) {
+        await client.DOM.scrollIntoViewIfNeeded({ objectId });
+        const { quads } = await client.DOM.getContentQuads({ objectId });
+        const quad = quads[0];
+        if (quad) {
+          const x = (quad[0] + quad[2] + quad[4] + quad[6]) / 4;
+          const y = (quad[1] + quad[3] + quad[5] + quad[7]) / 4;
+          const hit = await client.Runtime.callFunctionOn({
+            objectId,
+            functionDeclaration: HIT_TEST,
+            arguments: [{ value: x }, { value: y }],
+            returnByValue: true,
+          });
+          const obscuredBy = hit.result.value as string | null;
+          return { objectId, x, y, description: desc, ...(obscuredBy && { obscuredBy }) };
+        }
+      }
+      lastState = `${desc} is ${!visible ? "not visible" : "disabled"}`;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out after ${timeoutMs}ms waiting for ${what}: ${lastState}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+/** Free remote objects created while resolving elements. */
+export async function releaseElements(client: CDP.Client): Promise<void> {
+  try {
+    await client.Runtime.releaseObjectGroup({ objectGroup: OBJECT_GROUP });
+  } catch { /* session may be gone */ }
+}
+
+// --- Actions ---
+
+export async function clickAt(
+  client: CDP.Client,
+  x: number,
+  y: number,
+  options: { button?: "left" | "right" | "middle"; clickCount?: number; modifiers?: number } = {},
+): Promise<void> {
+  const button = options.button ?? "left";
+  const modifiers = options.modifiers ?? 0;
+  const clickCount = options.clickCount ?? 1;
+
+  await client.Input.dispatchMouseEvent({ type: "mouseMoved", x, y, modifiers });
+  // Double clicks are a press/release pair per click with an increasing count
+  for (let count = 1; count <= clickCount; count++) {
+    await client.Input.dispatchMouseEvent({ type: "mousePressed", x, y, button, clickCount: count, modifiers });
+    await client.Input.dispatchMouseEvent({ type: "mouseReleased", x, y, button, clickCount: count, modifiers });
+  }
+}
+
+export async function hoverAt(client: CDP.Client, x: number, y: number): Promise<void> {
+  await client.Input.dispatchMouseEvent({ type: "mouseMoved", x, y });
+}
+
+export async function scrollBy(client: CDP.Client, x: number, y: number, deltaX: number, deltaY: number): Promise<void> {
+  await client.Input.dispatchMouseEvent({ type: "mouseWheel", x, y, deltaX, deltaY });
+}
+
+export async function pressKey(client: CDP.Client, key: string, modifiers: ModifierKey[] = []): Promise<void> {
+  const def = keyDefinition(key);
+  if (!def) {
+    throw new Error(`Unknown key "${key}". Use a single character or one of: ${Object.keys(NAMED_KEYS).join(", ")}`);
+  }
+  const mask = modifierMask(modifiers);
+  // With Control/Alt/Meta held the key is a shortcut, not text input
+  const text = mask & ~MODIFIER_BITS.Shift ? undefined : def.text;
+
+  for (const m of modifiers) {
+    await client.Input.dispatchKeyEvent({ type: "rawKeyDown", key: m, code: `${m}Left`, modifiers: mask });
+  }
+  await client.Input.dispatchKeyEvent({
+    type: text ? "keyDown" : "rawKeyDown",
+    key: def.key,
+    code: def.code,
+    windowsVirtualKeyCode: def.keyCode,
+    modifiers: mask,
+    ...(text && { text, unmodifiedText: text }),
+  });
+  await client.Input.dispatchKeyEvent({
+    type: "keyUp",
+    key: def.key,
+    code: def.code,
+    windowsVirtualKeyCode: def.keyCode,
+    modifiers: mask,
+  });
+  for (const m of [...modifiers].reverse()) {
+    await client.Input.dispatchKeyEvent({ type: "keyUp", key: m, code: `${m}Left`, modifiers: 0 });
+  }
+}
+
+/**
+ * Type text as individual key presses so frameworks see keydown/input/keyup.
+ * Characters with no key on a US keyboard (emoji, CJK, accented letters…)
+ * are inserted as IME text.
+ */
+export async function typeText(client: CDP.Client, text: string): Promise<void> {
+  for (const ch of text) {
+    if (ch === "\n") {
+      await pressKey(client, "Enter");
+      continue;
+    }
+    const def = keyDefinition(ch);
+    if (def && def.keyCode !== 0) {
+      await pressKey(client, ch);
+    } else {
+      await client.Input.insertText({ text: ch });
+    }
+  }
+}
+
+export async function selectContents(client: CDP.Client, objectId: string): Promise<void> {
+  await client.Runtime.callFunctionOn({ objectId, functionDeclaration: SELECT_CONTENTS });
+}
+
+export async function selectOption(
+  client: CDP.Client,
+  objectId: string,
+  value: string | null,
+  label: string | null,
+): Promise<{ value: string; label: string }> {
+  const result = await client.Runtime.callFunctionOn({
+    objectId,
+    functionDeclaration: SELECT_OPTION,
+    arguments: [{ value }, { value: label }],
+    returnByValue: true,
+  });
+  const outcome = result.result.value as { value: string; label: string } | { error: string; options?: unknown };
+  if ("error" in outcome) {
+    const options = outcome.options ? ` Available: ${JSON.stringify(outcome.options)}` : "";
+    throw new Error(`${outcome.error}.${options}`);
+  }
+  return outcome;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import type CDP from "chrome-remote-interface";
+import { entryAt, historyEntryAt, stageReached, type HistoryEntry } from "./navigation.js";
+
+describe("stageReached", () => {
+  it("treats commit as reached immediately", () => {
+    expect(stageReached("commit", null)).toBe(true);
+    expect(stageReached("commit", "loading")).toBe(true);
+  });
+
+  it("accepts interactive or complete for DOMContentLoaded", () => {
+    expect(stageReached("DOMContentLoaded", "loading")).toBe(false);
+    expect(stageReached("DOMContentLoaded", "interactive")).toBe(true);
+    expect(stageReached("DOMContentLoaded", "complete")).toBe(true);
+  });
+
+  it("requires complete for load and networkidle", () => {
+    expect(stageReached("load", "interactive")).toBe(false);
+    expect(stageReached("load", "complete")).toBe(true);
+    expect(stageReached("networkidle", "complete")).toBe(true);
+    // Context torn down mid-navigation
+    expect(stageReached("load", null)).toBe(false);
+  });
+});
+
+describe("entryAt", () => {
+  const history: HistoryEntry[] = [
+    { id: 1, url: "http://app/", title: "Home", current: false },
+    { id: 2, url: "http://app/cart", title: "Cart", current: true },
+    { id: 3, url: "http://app/checkout", title: "Checkout", current: false },
+  ];
+
+  it("steps back and forward from the current entry", () => {
+    expect(entryAt(history, -1).url).toBe("http://app/");
+    expect(entryAt(history, 1).url).toBe("http://app/checkout");
+  });
+
+  it("throws at either end of the history", () => {
+    expect(() => entryAt(history, -2)).toThrow(/No previous history entry to go back/);
+    expect(() => entryAt(history, 2)).toThrow(/No next history entry to go forward/);
+  });
+});
+
+describe("historyEntryAt", () => {
+  it("reads the history from the page", async () => {
+    const client = {
+      Page: {
+        getNavigationHistory: async () => ({
+          currentIndex: 0,
+          entries: [{ id: 7, url: "http://app/a", title: "A" }, { id: 8, url: "http://app/b", title: "B" }],
+        }),
+      },
+    };
+    expect(await historyEntryAt(client as unknown as CDP.Client, 1)).toEqual({ id: 8, url: "http://app/b", title: "B", current: false });
+  });
+});
@@ -0,0 +1,181 @@
+import type CDP from "chrome-remote-interface";
+import type { CDPClient } from "./cdp-client.js";
+
+// --- Types ---
+
+/**
+ * How far a navigation must get before the tool returns. "commit" is as soon
+ * as the new document replaces the old one; "networkidle" is after load plus
+ * NETWORK_IDLE_MS without any request in flight.
+ */
+export const WAIT_UNTIL = ["commit", "DOMContentLoaded", "load", "networkidle"] as const;
+export type WaitUntil = typeof WAIT_UNTIL[number];
+
+export interface WaitOptions {
+  waitUntil: WaitUntil;
+  /** Also wait for this CSS selector to match an element. */
+  selector?: string;
+  timeoutMs: number;
+}
+
+export interface NavigationResult {
+  url: string;
+  title: string;
+  /** Wall time from triggering the navigation to the wait condition being met. */
+  elapsed_ms: number;
+}
+
+export interface HistoryEntry {
+  id: number;
+  url: string;
+  title: string;
+  current: boolean;
+}
+
+// --- Config ---
+
+export const DEFAULT_NAVIGATION_TIMEOUT_MS = 30000;
+const NETWORK_IDLE_MS = 500;
+const POLL_INTERVAL_MS = 100;
+
+// --- Waiting ---
+
+/** Ready states that satisfy each lifecycle stage. */
+export function stageReached(waitUntil: WaitUntil, readyState: string | null): boolean {
+  switch (waitUntil) {
+    case "commit":
+      return true;
+    case "DOMContentLoaded":
+      return readyState === "interactive" || readyState === "complete";
+    default:
+      return readyState === "complete";
+  }
+}
+
+async function readyState(client: CDP.Client): Promise<string | null> {
+  try {
+    const result = await client.Runtime.evaluate({ expression: "document.readyState", returnByValue: true });
+    return result.result.value as string;
+  } catch {
+    // Execution context torn down mid-navigation — ask again next poll
+    return null;
+  }
+}
+
+async function selectorPresent(client: CDP.Client, selector: string): Promise<boolean> {
+  const result = await client.Runtime.evaluate({
+    expression: `!!document.querySelector(${JSON.stringify(selector)})`,
+    returnByValue: true,
+  });
+  if (result.exceptionDetails) {
+    throw new Error(`Invalid selector "${selector}": ${result.exceptionDetails.exception?.description ?? result.exceptionDetails.text}`);
+  }
+  return result.result.value === true;
+}
+
+/**
+ * Run `trigger` (Page.navigate, Page.reload, a history jump…) and wait until
+ * the main frame commits a navigation and reaches the requested stage.
+ *
+ * Commit is detected from Page.frameNavigated / Page.navigatedWithinDocument,
+ * subscribed before triggering so fast navigations aren't missed. Load stages
+ * are then read from document.readyState, which also covers back/forward
+ * cache restores and same-document navigations that never fire load events.
+ */
+export async function navigateAndWait(
+  cdp: CDPClient,
+  client: CDP.Client,
+  trigger: () => Promise<void>,
+  options: WaitOptions,
+): Promise<NavigationResult> {
+  const started = Date.now();
+  const deadline = started + options.timeoutMs;
+  const { frameTree } = await client.Page.getFrameTree();
+  const mainFrameId = frameTree.frame.id;
+
+  let committed = false;
+  const unsubscribe = [
+    client.Page.frameNavigated(({ frame }) => {
+      if (!frame.parentId) committed = true;
+    }),
+    client.Page.navigatedWithinDocument(({ frameId }) => {
+      if (frameId === mainFrameId) committed = true;
+    }),
+  ];
+
+  try {
+    await trigger();
+
+    let stage = "commit";
+    let idleSince: number | null = null;
+
+    while (true) {
+      if (committed) {
+        const state = await readyState(client);
+        if (stageReached(options.waitUntil, state)) {
+          stage = options.waitUntil;
+
+          let idle = true;
+          if (options.waitUntil === "networkidle") {
+            // Idle once nothing has been in flight for NETWORK_IDLE_MS
+            if (cdp.getPendingRequests().length > 0) {
+              idleSince = null;
+            } else {
+              idleSince ??= Date.now();
+            }
+            idle = idleSince !== null && Date.now() - idleSince >= NETWORK_IDLE_MS;
+            if (!idle) stage = "load";
+          }
+
+          if (idle && (options.selector === undefined || await selectorPresent(client, options.selector))) {
+            break;
+          }
+        } else if (state !== null) {
+          stage = state === "loading" ? "commit" : "DOMContentLoaded";
+        }
+      }
+
+      if (Date.now() >= deadline) {
+        const waitingFor = options.selector !== undefined && stage === options.waitUntil
+          ? `selector "${options.selector}"`
+          : options.waitUntil;
+        throw new Error(
+          `Timed out after ${options.timeoutMs}ms waiting for ${waitingFor}` +
+          (committed ? ` (page reached ${stage})` : " (navigation never committed)"),
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } finally {
+    for (const off of unsubscribe) off();
+  }
+
+  const page = await client.Runtime.evaluate({
+    expression: "({ url: location.href, title: document.title })",
+    returnByValue: true,
+  });
+  const { url, title } = page.result.value as { url: string; title: string };
+  return { url, title, elapsed_ms: Date.now() - started };
+}
+
+// --- History ---
+
+export async function getHistory(client: CDP.Client): Promise<HistoryEntry[]> {
+  const { currentIndex, entries } = await client.Page.getNavigationHistory();
+  return entries.map((e, i) => ({ id: e.id, url: e.url, title: e.title, current: i === currentIndex }));
+}
+
+/** The history entry `delta` steps from the current one (-1 = back, 1 = forward). */
+export async function historyEntryAt(client: CDP.Client, delta: number): Promise<HistoryEntry> {
+  return entryAt(await getHistory(client), delta);
+}
+
+/** Pure lookup behind historyEntryAt. Throws at either end of the history. */
+export function entryAt(history: HistoryEntry[], delta: number): HistoryEntry {
+  const index = history.findIndex((e) => e.current) + delta;
+  const entry = history[index];
+  if (!entry) {
+    throw new Error(`No ${delta < 0 ? "previous" : "next"} history entry to go ${delta < 0 ? "back" : "forward"} to`);
+  }
+  return entry;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_CONDITIONS, mergeConditions } from "./network-emulation.js";
+
+describe("mergeConditions", () => {
+  it("applies a named preset's throttling figures", () => {
+    expect(mergeConditions(DEFAULT_CONDITIONS, { preset: "slow_3g" })).toMatchObject({
+      preset: "slow_3g",
+      offline: false,
+      latency_ms: 2000,
+      download_kbps: 400,
+      upload_kbps: 400,
+    });
+    expect(mergeConditions(DEFAULT_CONDITIONS, { preset: "offline" })).toMatchObject({ preset: "offline", offline: true });
+  });
+
+  it("switches to custom when figures are given, starting from the current ones", () => {
+    const slow = mergeConditions(DEFAULT_CONDITIONS, { preset: "slow_3g" });
+    expect(mergeConditions(slow, { latency_ms: 100 })).toMatchObject({
+      preset: "custom",
+      latency_ms: 100,
+      download_kbps: 400,
+      upload_kbps: 400,
+    });
+  });
+
+  it("lets explicit figures override the preset given with them", () => {
+    expect(mergeConditions(DEFAULT_CONDITIONS, { preset: "fast_3g", download_kbps: 5000 })).toMatchObject({
+      preset: "custom",
+      latency_ms: 562.5,
+      download_kbps: 5000,
+      upload_kbps: 675,
+    });
+  });
+
+  it("leaves offline mode when custom figures are set", () => {
+    const offline = mergeConditions(DEFAULT_CONDITIONS, { preset: "offline" });
+    expect(mergeConditions(offline, { preset: "custom", latency_ms: 50 })).toMatchObject({ preset: "custom", offline: false, latency_ms: 50 });
+  });
+
+  it("rejects the custom preset without any figures", () => {
+    expect(() => mergeConditions(DEFAULT_CONDITIONS, { preset: "custom" })).toThrow(/custom preset needs/);
+  });
+
+  it("keeps cache and blocking settings independent of the preset", () => {
+    const blocked = mergeConditions(DEFAULT_CONDITIONS, { cache_disabled: true, blocked_urls: ["*analytics*"] });
+    const next = mergeConditions(blocked, { preset: "none" });
+    expect(next).toMatchObject({ preset: "none", cache_disabled: true, blocked_urls: ["*analytics*"] });
+    expect(mergeConditions(next, { blocked_urls: [] }).blocked_urls).toEqual([]);
+  });
+
+  it("does not modify the current conditions", () => {
+    const current = mergeConditions(DEFAULT_CONDITIONS, { blocked_urls: ["*.png"] });
+    mergeConditions(current, { preset: "slow_3g", blocked_urls: ["*.js"] });
+    expect(current).toMatchObject({ preset: "none", blocked_urls: ["*.png"] });
+    expect(DEFAULT_CONDITIONS.blocked_urls).toEqual([]);
+  });
+});
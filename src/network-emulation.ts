@@ -0,0 +1,137 @@
+import type CDP from "chrome-remote-interface";
+import { cdpClient, type CDPClient } from "./cdp-client.js";
+
+// --- Types ---
+
+export const THROTTLING_PRESETS = ["none", "slow_3g", "fast_3g", "offline", "custom"] as const;
+export type ThrottlingPreset = typeof THROTTLING_PRESETS[number];
+
+export interface NetworkConditions {
+  preset: ThrottlingPreset;
+  offline: boolean;
+  latency_ms: number;
+  /** Kilobits per second; 0 means unthrottled. */
+  download_kbps: number;
+  upload_kbps: number;
+  cache_disabled: boolean;
+  /** URL patterns (with * wildcards) the browser refuses to load. */
+  blocked_urls: string[];
+}
+
+export interface NetworkConditionsUpdate {
+  preset?: ThrottlingPreset;
+  latency_ms?: number;
+  download_kbps?: number;
+  upload_kbps?: number;
+  cache_disabled?: boolean;
+  blocked_urls?: string[];
+}
+
+// --- Presets ---
+
+/** Same figures as the DevTools throttling menu. */
+const PRESETS: Record<Exclude<ThrottlingPreset, "custom">, Pick<NetworkConditions, "offline" | "latency_ms" | "download_kbps" | "upload_kbps">> = {
+  none: { offline: false, latency_ms: 0, download_kbps: 0, upload_kbps: 0 },
+  slow_3g: { offline: false, latency_ms: 2000, download_kbps: 400, upload_kbps: 400 },
+  fast_3g: { offline: false, latency_ms: 562.5, download_kbps: 1440, upload_kbps: 675 },
+  offline: { offline: true, latency_ms: 0, download_kbps: 0, upload_kbps: 0 },
+};
+
+export const DEFAULT_CONDITIONS: NetworkConditions = {
+  preset: "none",
+  ...PRESETS.none,
+  cache_disabled: false,
+  blocked_urls: [],
+};
+
+/**
+ * Merge an update into the current conditions (pure; see NetworkEmulator.update).
+ * A named preset replaces the throttling figures; explicit latency/throughput
+ * values switch to "custom". Cache and blocking settings are independent of
+ * the preset.
+ */
+export function mergeConditions(current: NetworkConditions, update: NetworkConditionsUpdate): NetworkConditions {
+  const next: NetworkConditions = { ...current, blocked_urls: [...current.blocked_urls] };
+  const throttled = update.latency_ms !== undefined || update.download_kbps !== undefined || update.upload_kbps !== undefined;
+
+  if (update.preset === "custom" && !throttled) {
+    throw new Error("The custom preset needs latency_ms, download_kbps or upload_kbps");
+  }
+  if (update.preset !== undefined && update.preset !== "custom") {
+    Object.assign(next, PRESETS[update.preset], { preset: update.preset });
+  }
+  if (throttled) {
+    next.preset = "custom";
+    next.offline = false;
+    next.latency_ms = update.latency_ms ?? next.latency_ms;
+    next.download_kbps = update.download_kbps ?? next.download_kbps;
+    next.upload_kbps = update.upload_kbps ?? next.upload_kbps;
+  }
+  if (update.cache_disabled !== undefined) {
+    next.cache_disabled = update.cache_disabled;
+  }
+  if (update.blocked_urls !== undefined) {
+    next.blocked_urls = [...update.blocked_urls];
+  }
+  return next;
+}
+
+/** CDP wants bytes/second, with -1 meaning no limit. */
+function toThroughput(kbps: number): number {
+  return kbps > 0 ? (kbps * 1000) / 8 : -1;
+}
+
+// --- Network Emulator ---
+
+/**
+ * Throttling, offline mode, cache and URL blocking for the inspected page.
+ * The desired state is kept here and re-applied on every session, so it
+ * survives reconnects and target switches.
+ */
+export class NetworkEmulator {
+  private conditions: NetworkConditions = { ...DEFAULT_CONDITIONS };
+
+  constructor(private cdp: CDPClient) {
+    cdp.onSession((client) => this.apply(client));
+  }
+
+  getConditions(): NetworkConditions {
+    return { ...this.conditions, blocked_urls: [...this.conditions.blocked_urls] };
+  }
+
+  /** Whether anything differs from a normal, unthrottled browser. */
+  isActive(): boolean {
+    const c = this.conditions;
+    return c.preset !== "none" || c.cache_disabled || c.blocked_urls.length > 0;
+  }
+
+  /** Merge an update into the current conditions and apply it. */
+  async update(update: NetworkConditionsUpdate): Promise<NetworkConditions> {
+    this.conditions = mergeConditions(this.conditions, update);
+    const client = this.cdp.getClient();
+    if (client) {
+      await this.apply(client);
+    }
+    return this.getConditions();
+  }
+
+  async reset(): Promise<NetworkConditions> {
+    return this.update({ preset: "none", cache_disabled: false, blocked_urls: [] });
+  }
+
+  private async apply(client: CDP.Client): Promise<void> {
+    const c = this.conditions;
+    await Promise.all([
+      client.Network.emulateNetworkConditions({
+        offline: c.offline,
+        latency: c.latency_ms,
+        downloadThroughput: toThroughput(c.download_kbps),
+        uploadThroughput: toThroughput(c.upload_kbps),
+      }),
+      client.Network.setCacheDisabled({ cacheDisabled: c.cache_disabled }),
+      client.Network.setBlockedURLs({ urls: c.blocked_urls }),
+    ]);
+  }
+}
+
+export const networkEmulator = new NetworkEmulator(cdpClient);
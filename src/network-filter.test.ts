@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { toInitiator, type NetworkEntry } from "./cdp-client.js";
+import { filterNetworkEntries, isFailedRequest } from "./network-filter.js";
+
+function request(overrides: Partial<NetworkEntry>): NetworkEntry {
+  return {
+    id: "1",
+    url: "http://localhost:3000/",
+    method: "GET",
+    status: 200,
+    timing_ms: 12,
+    error: null,
+    timestamp: "2025-01-01T00:00:00.000Z",
+    target_id: null,
+    state: "complete",
+    resource_type: "Document",
+    mime_type: "text/html",
+    encoded_size: 1024,
+    request_headers: {},
+    response_headers: {},
+    redirect_chain: [],
+    initiator: null,
+    ...overrides,
+  };
+}
+
+describe("filterNetworkEntries", () => {
+  const entries = [
+    request({ id: "doc" }),
+    request({ id: "users", url: "http://localhost:3000/api/users", resource_type: "Fetch", mime_type: "application/json" }),
+    request({ id: "save", url: "http://localhost:3000/api/save", method: "POST", resource_type: "Fetch", status: 500 }),
+    request({ id: "offline", url: "http://localhost:3000/api/ping", resource_type: "Fetch", status: null, state: "failed", error: "net::ERR_FAILED" }),
+    request({ id: "xhr", url: "http://localhost:3000/api/legacy", resource_type: "XHR", status: 404 }),
+    request({ id: "slow", url: "http://localhost:3000/api/slow", resource_type: "Fetch", status: null, state: "pending" }),
+  ];
+  const ids = (result: NetworkEntry[]) => result.map((e) => e.id);
+
+  it("finds only failed Fetch requests to /api", () => {
+    expect(ids(filterNetworkEntries(entries, { url: "/api", resource_types: ["fetch"], failed: true })))
+      .toEqual(["save", "offline"]);
+  });
+
+  it("filters by method, status range, state and mime type", () => {
+    expect(ids(filterNetworkEntries(entries, { method: "post" }))).toEqual(["save"]);
+    expect(ids(filterNetworkEntries(entries, { status_min: 400, status_max: 499 }))).toEqual(["xhr"]);
+    expect(ids(filterNetworkEntries(entries, { states: ["pending"] }))).toEqual(["slow"]);
+    expect(ids(filterNetworkEntries(entries, { mime_type: "json" }))).toEqual(["users"]);
+  });
+
+  it("treats failed: false as successful or in-flight", () => {
+    expect(ids(filterNetworkEntries(entries, { failed: false }))).toEqual(["doc", "users", "slow"]);
+  });
+
+  it("classifies HTTP errors and network failures as failed", () => {
+    expect(isFailedRequest(request({ status: 503 }))).toBe(true);
+    expect(isFailedRequest(request({ status: null, state: "failed" }))).toBe(true);
+    expect(isFailedRequest(request({ status: 304 }))).toBe(false);
+  });
+});
+
+describe("toInitiator", () => {
+  it("prefers the top script frame with a URL", () => {
+    expect(toInitiator({
+      type: "script",
+      stack: { callFrames: [{ url: "", lineNumber: 0 }, { url: "http://localhost/app.js", lineNumber: 41 }] },
+    })).toEqual({ type: "script", url: "http://localhost/app.js", line: 42 });
+  });
+
+  it("falls back to the parser location, then the bare type", () => {
+    expect(toInitiator({ type: "parser", url: "http://localhost/", lineNumber: 9 }))
+      .toEqual({ type: "parser", url: "http://localhost/", line: 10 });
+    expect(toInitiator({ type: "other" })).toEqual({ type: "other" });
+  });
+});
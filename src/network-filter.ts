@@ -0,0 +1,46 @@
+import type { NetworkEntry, NetworkState } from "./cdp-client.js";
+
+// --- Types ---
+
+export interface NetworkQuery {
+  /** URL substring. */
+  url?: string;
+  /** HTTP method, case-insensitive. */
+  method?: string;
+  /** CDP resource types (Document, Script, XHR, Fetch…), case-insensitive. */
+  resource_types?: string[];
+  /** Exact status code. */
+  status?: number;
+  status_min?: number;
+  status_max?: number;
+  states?: NetworkState[];
+  /** Only requests that failed at the network level or returned 4xx/5xx. */
+  failed?: boolean;
+  /** MIME type substring (e.g. "json"). */
+  mime_type?: string;
+}
+
+// --- Query ---
+
+export function isFailedRequest(entry: NetworkEntry): boolean {
+  return entry.state === "failed" || (entry.status !== null && entry.status >= 400);
+}
+
+export function matchesNetworkQuery(entry: NetworkEntry, query: NetworkQuery): boolean {
+  const resourceTypes = query.resource_types?.map((t) => t.toLowerCase());
+  return (
+    (query.url === undefined || entry.url.includes(query.url)) &&
+    (query.method === undefined || entry.method.toUpperCase() === query.method.toUpperCase()) &&
+    (!resourceTypes || (entry.resource_type !== null && resourceTypes.includes(entry.resource_type.toLowerCase()))) &&
+    (query.status === undefined || entry.status === query.status) &&
+    (query.status_min === undefined || (entry.status !== null && entry.status >= query.status_min)) &&
+    (query.status_max === undefined || (entry.status !== null && entry.status <= query.status_max)) &&
+    (!query.states || query.states.includes(entry.state)) &&
+    (query.failed === undefined || isFailedRequest(entry) === query.failed) &&
+    (query.mime_type === undefined || (entry.mime_type?.includes(query.mime_type) ?? false))
+  );
+}
+
+export function filterNetworkEntries<T extends NetworkEntry>(entries: T[], query: NetworkQuery): T[] {
+  return entries.filter((e) => matchesNetworkQuery(e, query));
+}
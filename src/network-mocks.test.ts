@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import type CDP from "chrome-remote-interface";
+import type { CDPClient } from "./cdp-client.js";
+import { findMatchingRule, matchesUrlPattern, NetworkMockManager, toFetchUrlPattern, type MockRuleInput } from "./network-mocks.js";
+
+describe("matchesUrlPattern", () => {
+  it("matches substrings when there is no wildcard", () => {
+    expect(matchesUrlPattern("http://localhost:3000/api/save?draft=1", "/api/save")).toBe(true);
+    expect(matchesUrlPattern("http://localhost:3000/api/load", "/api/save")).toBe(false);
+  });
+
+  it("anchors globs and treats other characters literally", () => {
+    expect(matchesUrlPattern("http://localhost:3000/api/users?page=2", "*/api/users?page=*")).toBe(true);
+    expect(matchesUrlPattern("http://localhost:3000/api/usersXpage=2", "*/api/users?page=*")).toBe(false);
+    expect(matchesUrlPattern("http://localhost:3000/api/users", "*/api/*.json")).toBe(false);
+  });
+});
+
+describe("toFetchUrlPattern", () => {
+  it("wraps substrings and escapes Fetch's single-character wildcard", () => {
+    expect(toFetchUrlPattern("/api/save")).toBe("*/api/save*");
+    expect(toFetchUrlPattern("*/search?q=*")).toBe("*/search\\?q=*");
+  });
+});
+
+describe("findMatchingRule", () => {
+  const rules: Array<MockRuleInput & { id: string }> = [
+    { id: "post-save", url_pattern: "/api/save", method: "POST", action: "fulfill", status: 500 },
+    { id: "fetch-only", url_pattern: "/api/", resource_type: "Fetch", action: "delay", delay_ms: 2000 },
+    { id: "any", url_pattern: "/api/", action: "fail" },
+  ];
+  const request = (url: string, method: string, resourceType: string) => ({ url, method, resourceType, headers: {} });
+
+  it("returns the first rule whose URL, method and resource type match", () => {
+    expect(findMatchingRule(rules, request("http://x/api/save", "post", "Fetch"))?.id).toBe("post-save");
+    expect(findMatchingRule(rules, request("http://x/api/save", "GET", "fetch"))?.id).toBe("fetch-only");
+    expect(findMatchingRule(rules, request("http://x/api/save", "GET", "XHR"))?.id).toBe("any");
+  });
+
+  it("returns nothing when no rule matches", () => {
+    expect(findMatchingRule(rules, request("http://x/index.html", "GET", "Document"))).toBeUndefined();
+  });
+});
+
+describe("NetworkMockManager", () => {
+  it("drops a new rule when Chrome rejects its interception pattern", async () => {
+    let rejectNext = false;
+    const client = {
+      Fetch: {
+        enable: async () => {
+          if (rejectNext) throw new Error("Invalid pattern");
+        },
+        disable: async () => ({}),
+      },
+    } as unknown as CDP.Client;
+    const cdp = { onSession: () => {}, getClient: () => client };
+    const mocks = new NetworkMockManager(cdp as unknown as CDPClient);
+
+    const kept = await mocks.add({ url_pattern: "/api/save", action: "fail" });
+    rejectNext = true;
+    await expect(mocks.add({ url_pattern: "/api/load", action: "fail" })).rejects.toThrow("Invalid pattern");
+    expect(mocks.list().map((r) => r.id)).toEqual([kept.id]);
+  });
+});
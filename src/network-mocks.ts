@@ -0,0 +1,223 @@
+import type CDP from "chrome-remote-interface";
+import { cdpClient, type CDPClient } from "./cdp-client.js";
+
+// --- Types ---
+
+export const MOCK_ACTIONS = ["fulfill", "delay", "fail", "modify_headers"] as const;
+export type MockAction = typeof MOCK_ACTIONS[number];
+
+export const MOCK_ERROR_REASONS = [
+  "Failed", "Aborted", "TimedOut", "AccessDenied", "ConnectionClosed", "ConnectionReset",
+  "ConnectionRefused", "ConnectionAborted", "ConnectionFailed", "NameNotResolved",
+  "InternetDisconnected", "AddressUnreachable", "BlockedByClient", "BlockedByResponse",
+] as const;
+export type MockErrorReason = typeof MOCK_ERROR_REASONS[number];
+
+export interface MockRuleInput {
+  /** URL substring, or a glob when it contains `*`. */
+  url_pattern: string;
+  method?: string;
+  /** CDP resource type (Document, XHR, Fetch, Script…). */
+  resource_type?: string;
+  action: MockAction;
+  /** fulfill: response status (default 200). */
+  status?: number;
+  /** fulfill: response headers. */
+  headers?: Record<string, string>;
+  /** fulfill: response body. */
+  body?: string;
+  /** delay: wait before letting the request through. Also delays fulfill/fail/modify_headers. */
+  delay_ms?: number;
+  /** fail: network error to report (default "Failed"). */
+  error_reason?: MockErrorReason;
+  /** modify_headers: request headers to add or override. */
+  request_headers?: Record<string, string>;
+}
+
+export interface MockRule extends MockRuleInput {
+  id: string;
+  hits: number;
+  created_at: string;
+}
+
+interface PausedRequest {
+  url: string;
+  method: string;
+  resourceType: string;
+  headers: Record<string, string>;
+}
+
+// --- Matching ---
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** `*` is the only wildcard; patterns without one match as a substring. */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (!pattern.includes("*")) {
+    return url.includes(pattern);
+  }
+  const regex = new RegExp(`^${pattern.split("*").map(escapeRegExp).join(".*")}$`);
+  return regex.test(url);
+}
+
+/** The equivalent Fetch domain pattern, where `?` is also a wildcard and must be escaped. */
+export function toFetchUrlPattern(pattern: string): string {
+  const escaped = pattern.replace(/[?\\]/g, "\\$&");
+  return pattern.includes("*") ? escaped : `*${escaped}*`;
+}
+
+export function findMatchingRule<R extends MockRuleInput>(rules: R[], request: PausedRequest): R | undefined {
+  return rules.find((rule) =>
+    matchesUrlPattern(request.url, rule.url_pattern) &&
+    (rule.method === undefined || rule.method.toUpperCase() === request.method.toUpperCase()) &&
+    (rule.resource_type === undefined || rule.resource_type.toLowerCase() === request.resourceType.toLowerCase())
+  );
+}
+
+function guessContentType(body: string): string {
+  try {
+    JSON.parse(body);
+    return "application/json";
+  } catch {
+    return body.trimStart().startsWith("<") ? "text/html" : "text/plain";
+  }
+}
+
+// --- Mock Manager ---
+
+/**
+ * Intercepts requests with the Fetch domain and applies mock rules. Rules
+ * live here rather than in the browser, and are re-applied on every session
+ * so they survive reconnects and target switches.
+ */
+export class NetworkMockManager {
+  private rules: MockRule[] = [];
+  private nextId = 1;
+
+  constructor(private cdp: CDPClient) {
+    cdp.onSession((client) => this.attach(client));
+  }
+
+  async add(input: MockRuleInput): Promise<MockRule> {
+    const rule: MockRule = { ...input, id: `mock-${this.nextId++}`, hits: 0, created_at: new Date().toISOString() };
+    this.rules.push(rule);
+    try {
+      await this.sync();
+    } catch (err) {
+      // Chrome isn't intercepting for it, so don't list it as active
+      this.rules = this.rules.filter((r) => r !== rule);
+      throw err;
+    }
+    return rule;
+  }
+
+  list(): MockRule[] {
+    return this.rules.map((r) => ({ ...r }));
+  }
+
+  /** Remove one rule by id, or all rules when id is omitted. Returns how many were removed. */
+  async remove(id?: string): Promise<number> {
+    const before = this.rules.length;
+    this.rules = id === undefined ? [] : this.rules.filter((r) => r.id !== id);
+    const removed = before - this.rules.length;
+    if (removed > 0) {
+      await this.sync();
+    }
+    return removed;
+  }
+
+  /** Push the current rule set to the live session, if there is one. */
+  private async sync(): Promise<void> {
+    const client = this.cdp.getClient();
+    if (client) {
+      await this.applyPatterns(client);
+    }
+  }
+
+  private async attach(client: CDP.Client): Promise<void> {
+    client.Fetch.requestPaused((params) => {
+      void this.handlePaused(client, params.requestId, {
+        url: params.request.url,
+        method: params.request.method,
+        resourceType: params.resourceType,
+        headers: params.request.headers,
+      });
+    });
+    await this.applyPatterns(client);
+  }
+
+  /** Only pause requests some rule could match — Fetch.disable when there are none. */
+  private async applyPatterns(client: CDP.Client): Promise<void> {
+    if (this.rules.length === 0) {
+      await client.Fetch.disable();
+      return;
+    }
+    await client.Fetch.enable({
+      patterns: this.rules.map((r) => ({
+        urlPattern: toFetchUrlPattern(r.url_pattern),
+        requestStage: "Request" as const,
+      })),
+    });
+  }
+
+  private async handlePaused(client: CDP.Client, requestId: string, request: PausedRequest): Promise<void> {
+    const rule = findMatchingRule(this.rules, request);
+
+    try {
+      if (!rule) {
+        // Matched a Fetch pattern but not the rule's method/resource type
+        await client.Fetch.continueRequest({ requestId });
+        return;
+      }
+
+      rule.hits++;
+      if (rule.delay_ms) {
+        await new Promise((resolve) => setTimeout(resolve, rule.delay_ms));
+      }
+
+      switch (rule.action) {
+        case "fulfill": {
+          const body = rule.body ?? "";
+          const headers = { ...rule.headers };
+          if (!Object.keys(headers).some((h) => h.toLowerCase() === "content-type")) {
+            headers["Content-Type"] = guessContentType(body);
+          }
+          // Let cross-origin fetches read the mocked response
+          const origin = Object.entries(request.headers).find(([h]) => h.toLowerCase() === "origin")?.[1];
+          if (origin && !Object.keys(headers).some((h) => h.toLowerCase() === "access-control-allow-origin")) {
+            headers["Access-Control-Allow-Origin"] = origin;
+            headers["Access-Control-Allow-Credentials"] = "true";
+          }
+          await client.Fetch.fulfillRequest({
+            requestId,
+            responseCode: rule.status ?? 200,
+            responseHeaders: Object.entries(headers).map(([name, value]) => ({ name, value })),
+            body: Buffer.from(body).toString("base64"),
+          });
+          break;
+        }
+        case "fail":
+          await client.Fetch.failRequest({ requestId, errorReason: rule.error_reason ?? "Failed" });
+          break;
+        case "modify_headers": {
+          const headers = { ...request.headers, ...rule.request_headers };
+          await client.Fetch.continueRequest({
+            requestId,
+            headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+          });
+          break;
+        }
+        case "delay":
+          await client.Fetch.continueRequest({ requestId });
+          break;
+      }
+    } catch (err) {
+      // The request may have been cancelled or the session closed while we waited
+      console.error(`[relay-inspect] Mock rule ${rule?.id ?? "(none)"} failed for ${request.url}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
+
+export const mockManager = new NetworkMockManager(cdpClient);
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { cumulativeLayoutShift, interactionToNextPaint, rate, totalBlockingTime } from "./performance.js";
+
+describe("cumulativeLayoutShift", () => {
+  it("sums shifts within one session window", () => {
+    expect(cumulativeLayoutShift([
+      { startTime: 100, value: 0.05, hadRecentInput: false },
+      { startTime: 600, value: 0.1, hadRecentInput: false },
+    ])).toBe(0.15);
+  });
+
+  it("reports the largest window when shifts are more than 1s apart", () => {
+    expect(cumulativeLayoutShift([
+      { startTime: 100, value: 0.05, hadRecentInput: false },
+      { startTime: 2000, value: 0.2, hadRecentInput: false },
+      { startTime: 2500, value: 0.01, hadRecentInput: false },
+    ])).toBe(0.21);
+  });
+
+  it("caps a session window at 5s", () => {
+    const shifts = Array.from({ length: 12 }, (_, i) => ({ startTime: i * 900, value: 0.1, hadRecentInput: false }));
+    // 0..4500 fits in one window (6 shifts), then a new window starts
+    expect(cumulativeLayoutShift(shifts)).toBe(0.6);
+  });
+
+  it("ignores shifts caused by user input", () => {
+    expect(cumulativeLayoutShift([
+      { startTime: 100, value: 0.3, hadRecentInput: true },
+      { startTime: 200, value: 0.02, hadRecentInput: false },
+    ])).toBe(0.02);
+  });
+
+  it("is 0 without shifts", () => {
+    expect(cumulativeLayoutShift([])).toBe(0);
+  });
+});
+
+describe("interactionToNextPaint", () => {
+  it("is null without interactions", () => {
+    expect(interactionToNextPaint([])).toBeNull();
+    expect(interactionToNextPaint([{ interactionId: 0, name: "mousemove", duration: 300 }])).toBeNull();
+  });
+
+  it("uses the slowest event of each interaction, and the slowest interaction", () => {
+    expect(interactionToNextPaint([
+      { interactionId: 1, name: "pointerdown", duration: 40 },
+      { interactionId: 1, name: "click", duration: 120 },
+      { interactionId: 2, name: "keydown", duration: 80 },
+    ])).toBe(120);
+  });
+
+  it("skips one outlier per 50 interactions", () => {
+    const events = Array.from({ length: 60 }, (_, i) => ({ interactionId: i + 1, name: "click", duration: i === 0 ? 900 : 50 + i }));
+    expect(interactionToNextPaint(events)).toBe(109);
+  });
+});
+
+describe("totalBlockingTime", () => {
+  it("sums the blocking part of long tasks after FCP", () => {
+    expect(totalBlockingTime([
+      { startTime: 50, duration: 300 },
+      { startTime: 500, duration: 120 },
+      { startTime: 900, duration: 60 },
+    ], 400)).toBe(80);
+  });
+
+  it("counts every task when FCP is unknown", () => {
+    expect(totalBlockingTime([{ startTime: 50, duration: 300 }], null)).toBe(250);
+  });
+});
+
+describe("rate", () => {
+  it("applies Core Web Vitals thresholds", () => {
+    expect(rate("lcp_ms", 2500)).toBe("good");
+    expect(rate("lcp_ms", 3000)).toBe("needs-improvement");
+    expect(rate("lcp_ms", 4001)).toBe("poor");
+    expect(rate("cls", 0.05)).toBe("good");
+  });
+
+  it("returns null for unrated metrics or missing values", () => {
+    expect(rate("layout_count", 10)).toBeNull();
+    expect(rate("inp_ms", null)).toBeNull();
+  });
+});
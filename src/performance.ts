@@ -0,0 +1,228 @@
+import type CDP from "chrome-remote-interface";
+
+// --- Types ---
+
+export interface LayoutShift {
+  /** ms since navigation start. */
+  startTime: number;
+  value: number;
+  hadRecentInput: boolean;
+}
+
+export interface InteractionEvent {
+  interactionId: number;
+  name: string;
+  duration: number;
+}
+
+/** Raw timeline data gathered in the page. */
+interface PageTimings {
+  navigation: {
+    ttfb: number;
+    dom_content_loaded: number;
+    load: number;
+    transfer_size: number;
+    type: string;
+  } | null;
+  fcp: number | null;
+  lcp: { time: number; element: string | null } | null;
+  shifts: LayoutShift[];
+  long_tasks: Array<{ startTime: number; duration: number }>;
+  events: InteractionEvent[];
+}
+
+export type Rating = "good" | "needs-improvement" | "poor";
+
+export interface PerformanceReport {
+  url: string;
+  /** Flat, stable keys so reports can be diffed before and after a change. Times in ms. */
+  metrics: Record<string, number | null>;
+  ratings: Record<string, Rating>;
+  lcp_element: string | null;
+  navigation_type: string | null;
+}
+
+// --- Config ---
+
+/** Core Web Vitals thresholds: [good, poor]. */
+const THRESHOLDS: Record<string, [number, number]> = {
+  lcp_ms: [2500, 4000],
+  cls: [0.1, 0.25],
+  inp_ms: [200, 500],
+  fcp_ms: [1800, 3000],
+  ttfb_ms: [800, 1800],
+  tbt_ms: [200, 600],
+};
+
+/** Performance.getMetrics names we report, and the key to report them under. */
+const CDP_METRICS: Record<string, string> = {
+  JSHeapUsedSize: "js_heap_used_bytes",
+  JSHeapTotalSize: "js_heap_total_bytes",
+  Nodes: "dom_nodes",
+  JSEventListeners: "js_event_listeners",
+  LayoutCount: "layout_count",
+  RecalcStyleCount: "recalc_style_count",
+  LayoutDuration: "layout_duration_ms",
+  RecalcStyleDuration: "recalc_style_duration_ms",
+  ScriptDuration: "script_duration_ms",
+  TaskDuration: "task_duration_ms",
+};
+
+// --- Vitals ---
+
+/**
+ * CLS is the largest "session window" of shifts: shifts less than 1s apart,
+ * within a 5s window. Shifts right after user input don't count.
+ */
+export function cumulativeLayoutShift(shifts: LayoutShift[]): number {
+  let max = 0;
+  let current = 0;
+  let windowStart = 0;
+  let previous = -Infinity;
+
+  for (const shift of shifts) {
+    if (shift.hadRecentInput) continue;
+    if (shift.startTime - previous > 1000 || shift.startTime - windowStart > 5000) {
+      current = 0;
+      windowStart = shift.startTime;
+    }
+    current += shift.value;
+    previous = shift.startTime;
+    max = Math.max(max, current);
+  }
+  return Number(max.toFixed(4));
+}
+
+/**
+ * INP: the slowest interaction, or the 98th percentile when there are many
+ * (one outlier ignored per 50 interactions). Null without interactions.
+ */
+export function interactionToNextPaint(events: InteractionEvent[]): number | null {
+  const byInteraction = new Map<number, number>();
+  for (const e of events) {
+    if (!e.interactionId) continue;
+    byInteraction.set(e.interactionId, Math.max(byInteraction.get(e.interactionId) ?? 0, e.duration));
+  }
+  if (byInteraction.size === 0) return null;
+  const durations = Array.from(byInteraction.values()).sort((a, b) => b - a);
+  return durations[Math.min(durations.length - 1, Math.floor(durations.length / 50))];
+}
+
+/** Total Blocking Time: the part of each long task beyond 50ms, after first contentful paint. */
+export function totalBlockingTime(tasks: Array<{ startTime: number; duration: number }>, fcp: number | null): number {
+  return Math.round(
+    tasks
+      .filter((t) => fcp === null || t.startTime >= fcp)
+      .reduce((sum, t) => sum + Math.max(0, t.duration - 50), 0),
+  );
+}
+
+export function rate(metric: string, value: number | null): Rating | null {
+  const thresholds = THRESHOLDS[metric];
+  if (!thresholds || value === null) return null;
+  if (value <= thresholds[0]) return "good";
+  return value <= thresholds[1] ? "needs-improvement" : "poor";
+}
+
+// --- Collection ---
+
+/**
+ * Runs in the page. Buffered observers replay entries recorded since
+ * navigation start, so nothing needs to be injected ahead of time.
+ */
+const TIMINGS_SCRIPT = `(async () => {
+  const collect = (type, extra) => new Promise((resolve) => {
+    const entries = [];
+    try {
+      const observer = new PerformanceObserver((list) => entries.push(...list.getEntries()));
+      observer.observe({ type, buffered: true, ...extra });
+      // Buffered entries are delivered asynchronously
+      setTimeout(() => { entries.push(...observer.takeRecords()); observer.disconnect(); resolve(entries); }, 50);
+    } catch {
+      resolve(entries);
+    }
+  });
+  const describe = (el) => {
+    if (!el) return null;
+    let desc = el.tagName.toLowerCase();
+    if (el.id) desc += "#" + el.id;
+    if (typeof el.className === "string" && el.className.trim()) desc += "." + el.className.trim().split(/\\s+/).slice(0, 3).join(".");
+    return desc;
+  };
+
+  const [lcps, shifts, tasks, events] = await Promise.all([
+    collect("largest-contentful-paint"),
+    collect("layout-shift"),
+    collect("longtask"),
+    collect("event", { durationThreshold: 16 }),
+  ]);
+  const nav = performance.getEntriesByType("navigation")[0];
+  const fcp = performance.getEntriesByType("paint").find((p) => p.name === "first-contentful-paint");
+  const lcp = lcps[lcps.length - 1];
+
+  return {
+    url: location.href,
+    navigation: nav ? {
+      ttfb: nav.responseStart,
+      dom_content_loaded: nav.domContentLoadedEventEnd,
+      load: nav.loadEventEnd,
+      transfer_size: nav.transferSize,
+      type: nav.type,
+    } : null,
+    fcp: fcp ? fcp.startTime : null,
+    lcp: lcp ? { time: lcp.startTime, element: describe(lcp.element) } : null,
+    shifts: shifts.map((s) => ({ startTime: s.startTime, value: s.value, hadRecentInput: s.hadRecentInput })),
+    long_tasks: tasks.map((t) => ({ startTime: t.startTime, duration: t.duration })),
+    events: events.map((e) => ({ interactionId: e.interactionId || 0, name: e.name, duration: e.duration })),
+  };
+})()`;
+
+const round = (n: number | null) => (n === null ? null : Math.round(n));
+
+export async function collectPerformance(client: CDP.Client): Promise<PerformanceReport> {
+  await client.Performance.enable({});
+  const [{ metrics: cdpMetrics }, evaluated] = await Promise.all([
+    client.Performance.getMetrics(),
+    client.Runtime.evaluate({ expression: TIMINGS_SCRIPT, awaitPromise: true, returnByValue: true }),
+  ]);
+  if (evaluated.exceptionDetails) {
+    throw new Error(`Failed to read page timings: ${evaluated.exceptionDetails.exception?.description ?? evaluated.exceptionDetails.text}`);
+  }
+  const page = evaluated.result.value as PageTimings & { url: string };
+
+  const metrics: Record<string, number | null> = {
+    ttfb_ms: round(page.navigation?.ttfb ?? null),
+    fcp_ms: round(page.fcp),
+    dom_content_loaded_ms: round(page.navigation?.dom_content_loaded ?? null),
+    // loadEventEnd is 0 until the load event has finished
+    load_ms: page.navigation?.load ? Math.round(page.navigation.load) : null,
+    lcp_ms: round(page.lcp?.time ?? null),
+    cls: cumulativeLayoutShift(page.shifts),
+    inp_ms: round(interactionToNextPaint(page.events)),
+    tbt_ms: totalBlockingTime(page.long_tasks, page.fcp),
+    long_tasks: page.long_tasks.length,
+    longest_task_ms: round(page.long_tasks.reduce<number | null>((max, t) => Math.max(max ?? 0, t.duration), null)),
+    transfer_size_bytes: page.navigation?.transfer_size ?? null,
+  };
+
+  for (const { name, value } of cdpMetrics) {
+    const key = CDP_METRICS[name];
+    if (!key) continue;
+    // CDP reports durations in seconds
+    metrics[key] = key.endsWith("_ms") ? Math.round(value * 1000) : value;
+  }
+
+  const ratings: Record<string, Rating> = {};
+  for (const key of Object.keys(THRESHOLDS)) {
+    const rating = rate(key, metrics[key] ?? null);
+    if (rating) ratings[key] = rating;
+  }
+
+  return {
+    url: page.url,
+    metrics,
+    ratings,
+    lcp_element: page.lcp?.element ?? null,
+    navigation_type: page.navigation?.type ?? null,
+  };
+}
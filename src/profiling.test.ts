@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { parseTraceEvents, summarizeCpuProfile, summarizeTrace, type CpuProfileLike, type TraceEventLike } from "./profiling.js";
+
+function frame(functionName: string, url = "", lineNumber = -1, columnNumber = -1) {
+  return { functionName, url, lineNumber, columnNumber };
+}
+
+describe("summarizeCpuProfile", () => {
+  // (root) -> main -> [hot, (garbage collector)], (root) -> (idle)
+  const profile: CpuProfileLike = {
+    nodes: [
+      { id: 1, callFrame: frame("(root)"), children: [2, 5] },
+      { id: 2, callFrame: frame("main", "http://app/app.js", 9, 4), children: [3, 4] },
+      { id: 3, callFrame: frame("hot", "http://app/app.js", 19, 0) },
+      { id: 4, callFrame: frame("(garbage collector)") },
+      { id: 5, callFrame: frame("(idle)") },
+    ],
+    startTime: 0,
+    endTime: 10000,
+    // Each sample lasts until the next one
+    samples: [2, 3, 3, 4, 5],
+    timeDeltas: [0, 1000, 3000, 3000, 1000],
+  };
+
+  it("ranks functions by self time and reports idle and GC time", () => {
+    const summary = summarizeCpuProfile(profile, 10);
+    expect(summary.duration_ms).toBe(10);
+    expect(summary.idle_ms).toBe(2);
+    expect(summary.gc_ms).toBe(1);
+    expect(summary.top_functions.map((f) => [f.function, f.self_ms, f.total_ms])).toEqual([
+      ["hot", 6, 6],
+      ["main", 1, 8],
+      ["(garbage collector)", 1, 1],
+    ]);
+  });
+
+  it("converts call frame locations to 1-based", () => {
+    const [hot] = summarizeCpuProfile(profile, 1).top_functions;
+    expect(hot.source).toEqual({ url: "http://app/app.js", line: 20, column: 1 });
+    expect(hot.self_percent).toBe(75);
+  });
+
+  it("counts recursive functions once toward total time", () => {
+    const recursive: CpuProfileLike = {
+      nodes: [
+        { id: 1, callFrame: frame("(root)"), children: [2] },
+        { id: 2, callFrame: frame("walk", "http://app/a.js", 0, 0), children: [3] },
+        { id: 3, callFrame: frame("walk", "http://app/a.js", 0, 0) },
+      ],
+      startTime: 0,
+      endTime: 2000,
+      samples: [3, 2],
+      timeDeltas: [0, 1000],
+    };
+    const [walk] = summarizeCpuProfile(recursive, 5).top_functions;
+    expect(walk).toMatchObject({ function: "walk", self_ms: 2, total_ms: 2 });
+  });
+
+  it("falls back to hit counts without samples", () => {
+    const summary = summarizeCpuProfile({
+      nodes: [
+        { id: 1, callFrame: frame("(root)"), children: [2] },
+        { id: 2, callFrame: frame("", "http://app/a.js", 0, 0), hitCount: 4 },
+      ],
+      startTime: 0,
+      endTime: 4000,
+    }, 5);
+    expect(summary.top_functions[0]).toMatchObject({ function: "(anonymous)", self_ms: 4 });
+  });
+});
+
+describe("summarizeTrace", () => {
+  const meta = (pid: number, tid: number, name: string): TraceEventLike =>
+    ({ name: "thread_name", ph: "M", ts: 0, pid, tid, args: { name } });
+  const x = (name: string, ts: number, dur: number, data?: TraceEventLike["args"]): TraceEventLike =>
+    ({ name, ph: "X", ts, dur, pid: 1, tid: 1, ...(data && { args: data }) });
+
+  const events: TraceEventLike[] = [
+    meta(1, 1, "CrRendererMain"),
+    meta(2, 1, "CrRendererMain"),
+    { name: "TracingStartedInBrowser", ph: "I", ts: 1000, pid: 9, tid: 9, args: { data: { frames: [{ processId: 1 }] } } },
+    // 120ms task: a click handler calling a script function, then layout
+    x("RunTask", 1000, 120000),
+    x("EventDispatch", 2000, 100000, { data: { type: "click" } }),
+    x("FunctionCall", 3000, 90000, { data: { functionName: "onClick", url: "http://app/app.js", lineNumber: 12, columnNumber: 3 } }),
+    x("Layout", 102000, 18000),
+    // Short task
+    x("RunTask", 200000, 10000),
+    x("TimerFire", 200000, 9000),
+    // 60ms task
+    x("RunTask", 300000, 60000),
+    x("UpdateLayoutTree", 301000, 50000),
+    // Another renderer's (not this page's) task is ignored
+    { name: "RunTask", ph: "X", ts: 1000, dur: 500000, pid: 2, tid: 1 },
+  ];
+
+  it("lists long tasks, longest first, with their trigger and activities", () => {
+    const summary = summarizeTrace(events, { limit: 5 });
+    expect(summary.tasks).toBe(3);
+    expect(summary.long_tasks).toBe(2);
+    expect(summary.blocking_ms).toBe(80);
+    expect(summary.longest_tasks[0]).toEqual({
+      start_ms: 0,
+      duration_ms: 120,
+      trigger: "Event: click",
+      activities: [
+        { activity: "Function call: onClick", source: { url: "http://app/app.js", line: 12, column: 3 }, self_ms: 90 },
+        { activity: "Layout", self_ms: 18 },
+        { activity: "Event: click", self_ms: 10 },
+      ],
+    });
+    expect(summary.longest_tasks[1]).toMatchObject({ start_ms: 299, duration_ms: 60, trigger: "Recalculate style" });
+  });
+
+  it("aggregates self time across the whole trace", () => {
+    const summary = summarizeTrace(events, { limit: 2 });
+    expect(summary.top_activities.map((a) => [a.activity, a.self_ms])).toEqual([
+      ["Function call: onClick", 90],
+      ["Recalculate style", 50],
+    ]);
+  });
+
+  it("honors a custom long task threshold", () => {
+    const summary = summarizeTrace(events, { limit: 5, longTaskMs: 5 });
+    expect(summary.long_tasks).toBe(3);
+    // The 10ms task is listed but adds no blocking time
+    expect(summary.blocking_ms).toBe(80);
+  });
+});
+
+describe("parseTraceEvents", () => {
+  it("accepts both trace file shapes", () => {
+    const event = { name: "RunTask", ph: "X", ts: 1, dur: 1, pid: 1, tid: 1 };
+    expect(parseTraceEvents(JSON.stringify([event]))).toEqual([event]);
+    expect(parseTraceEvents(JSON.stringify({ traceEvents: [event], metadata: {} }))).toEqual([event]);
+  });
+});
@@ -0,0 +1,528 @@
+import type CDP from "chrome-remote-interface";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { cdpClient, type CDPClient } from "./cdp-client.js";
+
+// --- Types ---
+
+/** The parts of CDP's Profiler.Profile we read. */
+export interface CpuProfileLike {
+  nodes: Array<{
+    id: number;
+    callFrame: { functionName: string; url: string; lineNumber: number; columnNumber: number };
+    hitCount?: number;
+    children?: number[];
+  }>;
+  /** Microseconds. */
+  startTime: number;
+  endTime: number;
+  samples?: number[];
+  timeDeltas?: number[];
+}
+
+/** A Chrome trace event (Trace Event Format). */
+export interface TraceEventLike {
+  name: string;
+  cat?: string;
+  ph: string;
+  /** Microseconds. */
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: {
+    /** Thread name, on "thread_name" metadata events. */
+    name?: string;
+    data?: {
+      url?: string;
+      lineNumber?: number;
+      columnNumber?: number;
+      functionName?: string;
+      type?: string;
+      frames?: Array<{ processId?: number }>;
+    };
+  };
+}
+
+export interface SourceLocation {
+  url: string;
+  /** 1-based. */
+  line: number;
+  column: number;
+}
+
+export interface HotFunction {
+  function: string;
+  source?: SourceLocation;
+  self_ms: number;
+  /** Share of non-idle time. */
+  self_percent: number;
+  /** Including time in callees. */
+  total_ms: number;
+}
+
+export interface CpuProfileSummary {
+  duration_ms: number;
+  samples: number;
+  idle_ms: number;
+  gc_ms: number;
+  top_functions: HotFunction[];
+}
+
+export interface TraceActivity {
+  activity: string;
+  source?: SourceLocation;
+  self_ms: number;
+}
+
+export interface LongTask {
+  /** From the start of the trace. */
+  start_ms: number;
+  duration_ms: number;
+  /** The biggest piece of work the task ran, e.g. `Event: click` or a function call. */
+  trigger: string;
+  activities: TraceActivity[];
+}
+
+export interface TraceSummary {
+  duration_ms: number;
+  tasks: number;
+  long_tasks: number;
+  /** Time beyond 50ms summed over long tasks. */
+  blocking_ms: number;
+  longest_tasks: LongTask[];
+  top_activities: TraceActivity[];
+}
+
+// --- Config ---
+
+export const profileDir = resolve(process.env.PROFILE_DIR ?? join(".relay-inspect", "profiles"));
+
+/** Roughly what the DevTools Performance panel records, so traces open there with a JS flame chart. */
+export const DEFAULT_TRACE_CATEGORIES = [
+  "devtools.timeline",
+  "disabled-by-default-devtools.timeline",
+  "disabled-by-default-devtools.timeline.frame",
+  "disabled-by-default-devtools.timeline.stack",
+  "disabled-by-default-v8.cpu_profiler",
+  "blink.user_timing",
+  "loading",
+  "latencyInfo",
+  "toplevel",
+  "v8.execute",
+];
+
+const LONG_TASK_MS = 50;
+const ACTIVITIES_PER_TASK = 5;
+const TRACE_END_TIMEOUT_MS = 60000;
+/** Profile nodes that aren't functions. */
+const IDLE = "(idle)";
+const PROGRAM = "(program)";
+const GC = "(garbage collector)";
+
+const TASK_EVENTS = new Set(["RunTask", "ThreadControllerImpl::RunTask"]);
+
+/** Friendlier names for common timeline events. */
+const ACTIVITY_NAMES: Record<string, string> = {
+  EvaluateScript: "Evaluate script",
+  "v8.compile": "Compile script",
+  "v8.compileModule": "Compile module",
+  TimerFire: "Timer fired",
+  FireAnimationFrame: "Animation frame fired",
+  FireIdleCallback: "Idle callback",
+  Layout: "Layout",
+  UpdateLayoutTree: "Recalculate style",
+  PrePaint: "Pre-paint",
+  Paint: "Paint",
+  Layerize: "Layerize",
+  ParseHTML: "Parse HTML",
+  ParseAuthorStyleSheet: "Parse stylesheet",
+  MajorGC: "Garbage collection (major)",
+  MinorGC: "Garbage collection (minor)",
+  "V8.GC_SCAVENGER": "Garbage collection (minor)",
+  XHRReadyStateChange: "XHR ready state change",
+  ResourceReceivedData: "Receive data",
+};
+
+// --- CPU Profiles ---
+
+const ms = (us: number) => Math.round(us / 10) / 100;
+
+/** Generated location from a profile call frame (0-based) or trace event data (1-based). */
+function location(url: string | undefined, line: number | undefined, column: number | undefined, zeroBased: boolean): SourceLocation | undefined {
+  if (!url || line === undefined || line < 0) return undefined;
+  const offset = zeroBased ? 1 : 0;
+  return { url, line: line + offset, column: Math.max(column ?? 0, 0) + offset };
+}
+
+/**
+ * Self and total time per function. Each sample is charged the time until
+ * the next one; profiles without samples fall back to hit counts.
+ */
+export function summarizeCpuProfile(profile: CpuProfileLike, limit: number): CpuProfileSummary {
+  const duration = profile.endTime - profile.startTime;
+  const nodes = new Map(profile.nodes.map((n) => [n.id, n]));
+  const parents = new Map<number, number>();
+  for (const node of profile.nodes) {
+    for (const child of node.children ?? []) parents.set(child, node.id);
+  }
+
+  const selfByNode = new Map<number, number>();
+  const samples = profile.samples ?? [];
+  if (samples.length > 0 && profile.timeDeltas?.length === samples.length) {
+    let time = profile.startTime;
+    const times = profile.timeDeltas.map((d) => (time += d));
+    samples.forEach((id, i) => {
+      const next = i + 1 < times.length ? times[i + 1] : profile.endTime;
+      selfByNode.set(id, (selfByNode.get(id) ?? 0) + Math.max(0, next - times[i]));
+    });
+  } else {
+    const hits = profile.nodes.reduce((sum, n) => sum + (n.hitCount ?? 0), 0);
+    for (const node of profile.nodes) {
+      if (node.hitCount) selfByNode.set(node.id, (node.hitCount / hits) * duration);
+    }
+  }
+
+  const keyOf = (id: number) => {
+    const { functionName, url, lineNumber, columnNumber } = nodes.get(id)!.callFrame;
+    return `${functionName}|${url}|${lineNumber}|${columnNumber}`;
+  };
+  const functions = new Map<string, { nodeId: number; self: number; total: number }>();
+  let idle = 0;
+  let gc = 0;
+
+  for (const [id, self] of selfByNode) {
+    const name = nodes.get(id)?.callFrame.functionName;
+    if (name === IDLE) { idle += self; continue; }
+    if (name === GC) gc += self;
+
+    // Charge total time once per function on the stack, so recursion isn't counted twice
+    const seen = new Set<string>();
+    for (let cur: number | undefined = id; cur !== undefined; cur = parents.get(cur)) {
+      const frame = nodes.get(cur)!.callFrame;
+      if (frame.functionName === "(root)") break;
+      const key = keyOf(cur);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const entry = functions.get(key) ?? { nodeId: cur, self: 0, total: 0 };
+      entry.total += self;
+      if (cur === id) entry.self += self;
+      functions.set(key, entry);
+    }
+  }
+
+  const busy = Math.max(duration - idle, 1);
+  const top = Array.from(functions.values())
+    .filter((f) => f.self > 0 && nodes.get(f.nodeId)!.callFrame.functionName !== PROGRAM)
+    .sort((a, b) => b.self - a.self)
+    .slice(0, limit)
+    .map((f): HotFunction => {
+      const frame = nodes.get(f.nodeId)!.callFrame;
+      const source = location(frame.url, frame.lineNumber, frame.columnNumber, true);
+      return {
+        function: frame.functionName || "(anonymous)",
+        ...(source && { source }),
+        self_ms: ms(f.self),
+        self_percent: Math.round((f.self / busy) * 1000) / 10,
+        total_ms: ms(f.total),
+      };
+    });
+
+  return { duration_ms: ms(duration), samples: samples.length, idle_ms: ms(idle), gc_ms: ms(gc), top_functions: top };
+}
+
+// --- Traces ---
+
+function describeEvent(event: TraceEventLike): { activity: string; source?: SourceLocation } {
+  const data = event.args?.data ?? {};
+  switch (event.name) {
+    case "FunctionCall": {
+      const source = location(data.url, data.lineNumber, data.columnNumber, false);
+      return { activity: `Function call: ${data.functionName || "(anonymous)"}`, ...(source && { source }) };
+    }
+    case "EvaluateScript": {
+      const source = location(data.url, data.lineNumber, data.columnNumber, false);
+      return { activity: ACTIVITY_NAMES.EvaluateScript, ...(source && { source }) };
+    }
+    case "EventDispatch":
+      return { activity: `Event: ${data.type ?? "unknown"}` };
+    default:
+      return { activity: ACTIVITY_NAMES[event.name] ?? event.name };
+  }
+}
+
+/**
+ * Renderer main threads of the traced page: the processes hosting its frames,
+ * or every renderer main thread when the trace doesn't say.
+ */
+function mainThreads(events: TraceEventLike[]): Set<string> {
+  const pageProcesses = new Set<number>();
+  for (const e of events) {
+    if (e.name === "TracingStartedInBrowser") {
+      for (const frame of e.args?.data?.frames ?? []) {
+        if (frame.processId) pageProcesses.add(frame.processId);
+      }
+    }
+  }
+  const threads = new Set<string>();
+  for (const e of events) {
+    if (e.ph === "M" && e.name === "thread_name" && e.args?.name === "CrRendererMain") {
+      if (pageProcesses.size === 0 || pageProcesses.has(e.pid)) threads.add(`${e.pid}:${e.tid}`);
+    }
+  }
+  return threads;
+}
+
+interface OpenEvent {
+  event: TraceEventLike;
+  end: number;
+  childTime: number;
+  task: OpenTask | null;
+}
+
+interface OpenTask {
+  event: TraceEventLike;
+  longestChild: TraceEventLike | null;
+  activities: Map<string, TraceActivity>;
+}
+
+function addActivity(into: Map<string, TraceActivity>, event: TraceEventLike, selfUs: number): void {
+  const described = describeEvent(event);
+  const key = `${described.activity}|${described.source?.url}|${described.source?.line}|${described.source?.column}`;
+  const entry = into.get(key) ?? { ...described, self_ms: 0 };
+  entry.self_ms += selfUs;
+  into.set(key, entry);
+}
+
+function topActivities(activities: Map<string, TraceActivity>, limit: number): TraceActivity[] {
+  return Array.from(activities.values())
+    .sort((a, b) => b.self_ms - a.self_ms)
+    .slice(0, limit)
+    .map((a) => ({ ...a, self_ms: ms(a.self_ms) }));
+}
+
+/**
+ * Longest main-thread tasks and where their time went. Complete ("X") events
+ * nest by time on each thread; an event's self time is what its children
+ * don't account for.
+ */
+export function summarizeTrace(events: TraceEventLike[], options: { limit: number; longTaskMs?: number }): TraceSummary {
+  const longTaskUs = (options.longTaskMs ?? LONG_TASK_MS) * 1000;
+  const threads = mainThreads(events);
+  // Traces run to millions of events, too many to spread into Math.min
+  let start = Infinity;
+  let end = 0;
+  for (const e of events) {
+    if (e.ts <= 0) continue;
+    start = Math.min(start, e.ts);
+    end = Math.max(end, e.ts + (e.dur ?? 0));
+  }
+  if (start === Infinity) start = 0;
+
+  const byThread = new Map<string, TraceEventLike[]>();
+  for (const e of events) {
+    const thread = `${e.pid}:${e.tid}`;
+    if (e.ph !== "X" || e.dur === undefined || !threads.has(thread)) continue;
+    let list = byThread.get(thread);
+    if (!list) byThread.set(thread, (list = []));
+    list.push(e);
+  }
+
+  const tasks: OpenTask[] = [];
+  const overall = new Map<string, TraceActivity>();
+
+  for (const list of byThread.values()) {
+    // Parents before children: earlier start first, longer first on ties
+    list.sort((a, b) => a.ts - b.ts || b.dur! - a.dur!);
+    const stack: OpenEvent[] = [];
+    const close = (open: OpenEvent) => {
+      if (TASK_EVENTS.has(open.event.name)) return;
+      const self = Math.max(0, open.event.dur! - open.childTime);
+      addActivity(overall, open.event, self);
+      if (open.task) addActivity(open.task.activities, open.event, self);
+    };
+
+    for (const event of list) {
+      while (stack.length > 0 && stack[stack.length - 1].end <= event.ts) close(stack.pop()!);
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.childTime += Math.min(event.dur!, parent.end - event.ts);
+        if (TASK_EVENTS.has(parent.event.name) && parent.task &&
+            (!parent.task.longestChild || event.dur! > parent.task.longestChild.dur!)) {
+          parent.task.longestChild = event;
+        }
+      }
+      let task = parent?.task ?? null;
+      if (!parent && TASK_EVENTS.has(event.name)) {
+        task = { event, longestChild: null, activities: new Map() };
+        tasks.push(task);
+      }
+      stack.push({ event, end: event.ts + event.dur!, childTime: 0, task });
+    }
+    while (stack.length > 0) close(stack.pop()!);
+  }
+
+  const long = tasks.filter((t) => t.event.dur! >= longTaskUs).sort((a, b) => b.event.dur! - a.event.dur!);
+  return {
+    duration_ms: ms(end - start),
+    tasks: tasks.length,
+    long_tasks: long.length,
+    // Blocking time is always measured past 50ms, as in TBT — a lower threshold only widens the task list
+    blocking_ms: ms(long.reduce((sum, t) => sum + Math.max(0, t.event.dur! - LONG_TASK_MS * 1000), 0)),
+    longest_tasks: long.slice(0, options.limit).map((t) => ({
+      start_ms: ms(t.event.ts - start),
+      duration_ms: ms(t.event.dur!),
+      trigger: t.longestChild ? describeEvent(t.longestChild).activity : "(task)",
+      activities: topActivities(t.activities, ACTIVITIES_PER_TASK),
+    })),
+    top_activities: topActivities(overall, options.limit),
+  };
+}
+
+/** Trace files are either a bare event array or `{ traceEvents: [...] }`. */
+export function parseTraceEvents(json: string): TraceEventLike[] {
+  const parsed = JSON.parse(json);
+  return Array.isArray(parsed) ? parsed : (parsed.traceEvents ?? []);
+}
+
+// --- Recorder ---
+
+function fileStem(name: string | undefined, prefix: string): string {
+  if (name) return name.replace(/[^a-zA-Z0-9._-]+/g, "-").replace(/^-|-$/g, "") || prefix;
+  return `${prefix}-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+}
+
+async function saveFile(fileName: string, contents: string): Promise<string> {
+  await mkdir(profileDir, { recursive: true });
+  const path = join(profileDir, fileName);
+  await writeFile(path, contents);
+  return path;
+}
+
+/**
+ * Runs one CPU profile and one trace at a time. A recording belongs to the
+ * session it started on, so reconnecting or switching targets discards it.
+ */
+export class ProfileRecorder {
+  private profile: { client: CDP.Client; name?: string } | null = null;
+  private trace: { client: CDP.Client; name?: string } | null = null;
+
+  constructor(private cdp: CDPClient) {
+    cdp.onSession(() => {
+      this.profile = null;
+      this.trace = null;
+    });
+  }
+
+  isProfiling(): boolean {
+    return this.profile !== null;
+  }
+
+  isTracing(): boolean {
+    return this.trace !== null;
+  }
+
+  async startProfile(client: CDP.Client, options: { name?: string; samplingIntervalUs: number }): Promise<void> {
+    if (this.profile) {
+      throw new Error("A CPU profile is already running. Call stop_profile first.");
+    }
+    await client.Profiler.enable();
+    await client.Profiler.setSamplingInterval({ interval: options.samplingIntervalUs });
+    await client.Profiler.start();
+    this.profile = { client, name: options.name };
+  }
+
+  async stopProfile(client: CDP.Client, limit: number): Promise<{ file: string } & CpuProfileSummary> {
+    if (!this.profile || this.profile.client !== client) {
+      throw new Error("No CPU profile is running (reconnecting or switching tabs discards one). Call start_profile first.");
+    }
+    const { name } = this.profile;
+    this.profile = null;
+
+    // Profiler stays enabled: code coverage may be running on the same domain
+    const { profile } = await client.Profiler.stop();
+    const file = await saveFile(`${fileStem(name, "profile")}.cpuprofile`, JSON.stringify(profile));
+
+    const summary = summarizeCpuProfile(profile as CpuProfileLike, limit);
+    for (const fn of summary.top_functions) {
+      fn.source = await this.mapSource(fn.source);
+    }
+    return { file, ...summary };
+  }
+
+  async startTrace(client: CDP.Client, options: { name?: string; categories: string[] }): Promise<void> {
+    if (this.trace) {
+      throw new Error("A trace is already running. Call stop_trace first.");
+    }
+    await client.Tracing.start({
+      transferMode: "ReturnAsStream",
+      traceConfig: { recordMode: "recordUntilFull", includedCategories: options.categories },
+    });
+    this.trace = { client, name: options.name };
+  }
+
+  async stopTrace(
+    client: CDP.Client,
+    options: { limit: number; longTaskMs: number },
+  ): Promise<{ file: string; data_loss: boolean } & TraceSummary> {
+    if (!this.trace || this.trace.client !== client) {
+      throw new Error("No trace is running (reconnecting or switching tabs discards one). Call start_trace first.");
+    }
+    const { name } = this.trace;
+    this.trace = null;
+
+    let unsubscribe = () => {};
+    const complete = new Promise<{ stream?: string; dataLossOccurred: boolean }>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error("Timed out waiting for Chrome to finish the trace")), TRACE_END_TIMEOUT_MS);
+      unsubscribe = client.Tracing.tracingComplete((event) => {
+        clearTimeout(timer);
+        resolve(event);
+      });
+    });
+
+    let result: { stream?: string; dataLossOccurred: boolean };
+    try {
+      await client.Tracing.end();
+      result = await complete;
+    } finally {
+      unsubscribe();
+    }
+    if (!result.stream) {
+      throw new Error("Chrome returned no trace data");
+    }
+
+    const json = await this.readStream(client, result.stream);
+    const file = await saveFile(`${fileStem(name, "trace")}.json`, json);
+
+    const summary = summarizeTrace(parseTraceEvents(json), options);
+    for (const task of summary.longest_tasks) {
+      for (const activity of task.activities) activity.source = await this.mapSource(activity.source);
+    }
+    for (const activity of summary.top_activities) {
+      activity.source = await this.mapSource(activity.source);
+    }
+    return { file, data_loss: result.dataLossOccurred, ...summary };
+  }
+
+  private async readStream(client: CDP.Client, handle: string): Promise<string> {
+    const chunks: string[] = [];
+    try {
+      for (;;) {
+        const { data, eof, base64Encoded } = await client.IO.read({ handle });
+        chunks.push(base64Encoded ? Buffer.from(data, "base64").toString("utf8") : data);
+        if (eof) break;
+      }
+    } finally {
+      await client.IO.close({ handle }).catch(() => {});
+    }
+    return chunks.join("");
+  }
+
+  /** Point at the original source when the script has a source map. */
+  private async mapSource(source: SourceLocation | undefined): Promise<SourceLocation | undefined> {
+    if (!source) return undefined;
+    return (await this.cdp.sourceMaps.resolveLocation(source.url, source.line, source.column)) ?? source;
+  }
+}
+
+export const profileRecorder = new ProfileRecorder(cdpClient);
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { padRect, planScreenshot } from "./screenshot.js";
+
+describe("planScreenshot", () => {
+  const area = { x: 0, y: 100, width: 1280, height: 800 };
+
+  it("captures at native resolution by default", () => {
+    const plan = planScreenshot(area, 2, {});
+    expect(plan.clip).toEqual({ ...area, scale: 1 });
+    expect(plan).toMatchObject({ width: 2560, height: 1600 });
+    expect(plan.note).toBeUndefined();
+  });
+
+  it("lowers the scale to respect maxWidth, accounting for device pixel ratio", () => {
+    const plan = planScreenshot(area, 2, { maxWidth: 640 });
+    expect(plan.clip.scale).toBe(0.25);
+    expect(plan).toMatchObject({ width: 640, height: 400 });
+  });
+
+  it("leaves images already narrower than maxWidth alone", () => {
+    const plan = planScreenshot({ x: 0, y: 0, width: 300, height: 200 }, 1, { maxWidth: 640, scale: 1 });
+    expect(plan.clip.scale).toBe(1);
+    expect(plan.width).toBe(300);
+  });
+
+  it("applies an explicit scale", () => {
+    const plan = planScreenshot(area, 1, { scale: 0.5 });
+    expect(plan).toMatchObject({ width: 640, height: 400 });
+  });
+
+  it("cuts captures taller than Chrome's limit and says so", () => {
+    const plan = planScreenshot({ x: 0, y: 0, width: 1000, height: 20000 }, 2, {});
+    expect(plan.clip.height).toBe(8192);
+    expect(plan.height).toBe(16384);
+    expect(plan.note).toMatch(/cut at 8192px of 20000px/);
+  });
+});
+
+describe("padRect", () => {
+  it("pads every side", () => {
+    expect(padRect({ x: 100, y: 200, width: 50, height: 20 }, 10)).toEqual({ x: 90, y: 190, width: 70, height: 40 });
+  });
+
+  it("trims padding that would go past the top and left edges without shifting the far side", () => {
+    expect(padRect({ x: 4, y: 0, width: 50, height: 20 }, 10)).toEqual({ x: 0, y: 0, width: 64, height: 30 });
+  });
+});
@@ -0,0 +1,212 @@
+import type CDP from "chrome-remote-interface";
+import { resolveRef } from "./dom-snapshot.js";
+
+// --- Types ---
+
+/** A rectangle in CSS pixels, in document (not viewport) coordinates. */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Clip extends Rect {
+  scale: number;
+}
+
+export interface ScreenshotOptions {
+  /** Clip to the element with this snapshot ref. */
+  ref?: number;
+  /** Clip to the first element matching this selector. */
+  selector?: string;
+  /** Capture the whole scrollable page instead of the viewport. */
+  fullPage?: boolean;
+  /** Extra CSS pixels around the element's box. */
+  padding?: number;
+  scale?: number;
+  /** Largest output width in image pixels; downscales to fit. */
+  maxWidth?: number;
+}
+
+export interface ScreenshotPlan {
+  clip: Clip;
+  /** Expected image size in pixels. */
+  width: number;
+  height: number;
+  /** Set when the capture had to be cut short (e.g. a very tall full page). */
+  note?: string;
+}
+
+export interface Annotation {
+  label: number;
+  element: string;
+  rect: Rect;
+}
+
+// --- Config ---
+
+/** Chrome refuses to capture surfaces taller or wider than this many pixels. */
+const MAX_CAPTURE_PIXELS = 16384;
+const OVERLAY_ATTRIBUTE = "data-relay-inspect-overlay";
+const MAX_HIGHLIGHTS = 50;
+
+// --- Clip Planning ---
+
+/**
+ * Work out the clip and scale for a capture. Output size is
+ * clip size × scale × devicePixelRatio, so `maxWidth` is enforced by
+ * lowering the scale, and over-tall captures are cut at Chrome's limit.
+ */
+export function planScreenshot(
+  area: Rect,
+  devicePixelRatio: number,
+  options: Pick<ScreenshotOptions, "scale" | "maxWidth">,
+): ScreenshotPlan {
+  let scale = options.scale ?? 1;
+  if (options.maxWidth !== undefined && area.width * scale * devicePixelRatio > options.maxWidth) {
+    scale = options.maxWidth / (area.width * devicePixelRatio);
+  }
+
+  let height = area.height;
+  let note: string | undefined;
+  const maxCssHeight = MAX_CAPTURE_PIXELS / (scale * devicePixelRatio);
+  if (height > maxCssHeight) {
+    height = Math.floor(maxCssHeight);
+    note = `Capture cut at ${height}px of ${Math.round(area.height)}px page height (Chrome's ${MAX_CAPTURE_PIXELS}px limit); use a selector or a smaller scale`;
+  }
+
+  const clip: Clip = { x: area.x, y: area.y, width: area.width, height, scale };
+  return {
+    clip,
+    width: Math.round(area.width * scale * devicePixelRatio),
+    height: Math.round(height * scale * devicePixelRatio),
+    ...(note && { note }),
+  };
+}
+
+const PAGE_RECT = `function() {
+  const r = this.getBoundingClientRect();
+  return { x: r.left + window.scrollX, y: r.top + window.scrollY, width: r.width, height: r.height };
+}`;
+
+/** Page-coordinate box of the element named by a ref or selector. */
+async function elementRect(client: CDP.Client, options: Pick<ScreenshotOptions, "ref" | "selector">): Promise<Rect> {
+  const what = options.ref !== undefined ? `ref ${options.ref}` : `"${options.selector}"`;
+  let objectId: string;
+  if (options.ref !== undefined) {
+    objectId = await resolveRef(client, options.ref);
+  } else {
+    const found = await client.Runtime.evaluate({
+      expression: `document.querySelector(${JSON.stringify(options.selector)})`,
+    });
+    if (found.exceptionDetails) {
+      throw new Error(`Invalid selector "${options.selector}": ${found.exceptionDetails.exception?.description ?? found.exceptionDetails.text}`);
+    }
+    if (!found.result.objectId) {
+      throw new Error(`No element matched selector: "${options.selector}"`);
+    }
+    objectId = found.result.objectId;
+  }
+
+  try {
+    const result = await client.Runtime.callFunctionOn({ objectId, functionDeclaration: PAGE_RECT, returnByValue: true });
+    const rect = result.result.value as Rect;
+    if (rect.width === 0 || rect.height === 0) {
+      throw new Error(`Element ${what} has no size (hidden or empty)`);
+    }
+    return rect;
+  } finally {
+    await client.Runtime.releaseObject({ objectId }).catch(() => {});
+  }
+}
+
+/** Grow a rect by `pad` on every side, cut off at the page's top and left edges. */
+export function padRect(rect: Rect, pad: number): Rect {
+  const x = Math.max(0, rect.x - pad);
+  const y = Math.max(0, rect.y - pad);
+  return {
+    x,
+    y,
+    // Whatever padding the edge cut off comes off the size too, so the far side keeps its full padding
+    width: rect.x + rect.width + pad - x,
+    height: rect.y + rect.height + pad - y,
+  };
+}
+
+/** Resolve the area to capture: an element's box, the full page, or the visible viewport. */
+export async function captureArea(
+  client: CDP.Client,
+  options: Pick<ScreenshotOptions, "ref" | "selector" | "fullPage" | "padding">,
+): Promise<{ area: Rect; devicePixelRatio: number }> {
+  const dprResult = await client.Runtime.evaluate({ expression: "window.devicePixelRatio", returnByValue: true });
+  const devicePixelRatio = (dprResult.result.value as number) || 1;
+
+  if (options.ref !== undefined || options.selector !== undefined) {
+    const rect = await elementRect(client, options);
+    return { area: padRect(rect, options.padding ?? 0), devicePixelRatio };
+  }
+
+  const metrics = await client.Page.getLayoutMetrics();
+  if (options.fullPage) {
+    const { width, height } = metrics.cssContentSize;
+    return { area: { x: 0, y: 0, width, height }, devicePixelRatio };
+  }
+  const viewport = metrics.cssVisualViewport;
+  return {
+    area: { x: viewport.pageX, y: viewport.pageY, width: viewport.clientWidth, height: viewport.clientHeight },
+    devicePixelRatio,
+  };
+}
+
+// --- Highlighting ---
+
+/**
+ * Outline every element matching `selector` with an injected overlay, and
+ * number them when `annotate` is set. Call removeHighlights after capturing.
+ */
+export async function addHighlights(client: CDP.Client, selector: string, annotate: boolean): Promise<Annotation[]> {
+  const result = await client.Runtime.evaluate({
+    expression: `((selector, annotate, max, attr) => {
+      const container = document.createElement("div");
+      container.setAttribute(attr, "");
+      container.style.cssText = "position:absolute;left:0;top:0;width:0;height:0;pointer-events:none;z-index:2147483647";
+      const annotations = [];
+      Array.from(document.querySelectorAll(selector)).slice(0, max).forEach((el, i) => {
+        const r = el.getBoundingClientRect();
+        if (r.width === 0 && r.height === 0) return;
+        const rect = { x: r.left + window.scrollX, y: r.top + window.scrollY, width: r.width, height: r.height };
+        const box = document.createElement("div");
+        box.style.cssText = "position:absolute;box-sizing:border-box;border:2px solid #ff2d55;background:rgba(255,45,85,0.08)";
+        Object.assign(box.style, { left: rect.x + "px", top: rect.y + "px", width: rect.width + "px", height: rect.height + "px" });
+        if (annotate) {
+          const tag = document.createElement("div");
+          tag.textContent = String(i + 1);
+          tag.style.cssText = "position:absolute;left:-2px;top:-18px;padding:0 4px;font:bold 12px/16px sans-serif;color:#fff;background:#ff2d55";
+          box.appendChild(tag);
+        }
+        container.appendChild(box);
+        let desc = el.tagName.toLowerCase();
+        if (el.id) desc += "#" + el.id;
+        const text = (el.innerText || "").replace(/\\s+/g, " ").trim();
+        if (text) desc += ' "' + text.slice(0, 40) + '"';
+        annotations.push({ label: i + 1, element: desc, rect });
+      });
+      document.documentElement.appendChild(container);
+      return annotations;
+    })(${JSON.stringify(selector)}, ${annotate}, ${MAX_HIGHLIGHTS}, ${JSON.stringify(OVERLAY_ATTRIBUTE)})`,
+    returnByValue: true,
+  });
+  if (result.exceptionDetails) {
+    throw new Error(`Invalid highlight selector "${selector}": ${result.exceptionDetails.exception?.description ?? result.exceptionDetails.text}`);
+  }
+  return result.result.value as Annotation[];
+}
+
+export async function removeHighlights(client: CDP.Client): Promise<void> {
+  try {
+    await client.Runtime.evaluate({
+      expression: `document.querySelectorAll("[${OVERLAY_ATTRIBUTE}]").forEach((el) => el.remove())`,
+    });
+  } catch { /* page may have navigated away */ }
+}
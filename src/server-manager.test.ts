@@ -90,4 +90,26 @@ describe("ServerManager", () => {
       expect(empty.entries.length).toBe(0);
     }
   });
+
+  it("reads from a cursor without clearing", async () => {
+    mgr.start({ id: "cursor-test", command: "node", args: ["-e", "\"console.log('one'); setTimeout(() => console.log('two'), 1000)\""] });
+    await new Promise((r) => setTimeout(r, 500));
+
+    const first = mgr.getLogs("cursor-test", true, 0);
+    if ("error" in first) throw new Error(first.error);
+    expect(first.entries.map((e) => e.text)).toEqual(["one"]);
+
+    await new Promise((r) => setTimeout(r, 1000));
+
+    const next = mgr.getLogs("cursor-test", true, first.next_cursor);
+    if ("error" in next) throw new Error(next.error);
+    expect(next.entries.map((e) => e.text)).toEqual(["two"]);
+    expect(next.evicted).toBe(0);
+
+    // Cursor reads never drained — everything is still there
+    const all = mgr.getLogs("cursor-test", false);
+    if (!("error" in all)) {
+      expect(all.entries).toHaveLength(2);
+    }
+  });
 });
@@ -101,14 +101,29 @@ export class ServerManager {
     return { success: true };
   }
 
-  getLogs(id: string, clear = true): { entries: LogEntry[]; running: boolean; exitCode: number | null } | { error: string } {
+  /** With `after`, reads non-destructively from that cursor and ignores `clear`. */
+  getLogs(
+    id: string,
+    clear = true,
+    after?: number,
+  ): { entries: Array<LogEntry & { seq: number }>; running: boolean; exitCode: number | null; next_cursor: number; evicted: number } | { error: string } {
     const server = this.servers.get(id);
     if (!server) {
       return { error: `No server found with id "${id}". Use start_server first.` };
     }
 
-    const entries = clear ? server.logs.drain() : server.logs.peek();
-    return { entries, running: server.running, exitCode: server.exitCode };
+    const read = server.logs.read(after);
+    if (clear && after === undefined) {
+      server.logs.drain();
+    }
+
+    return {
+      entries: read.entries.map(({ seq, item }) => ({ seq, ...item })),
+      running: server.running,
+      exitCode: server.exitCode,
+      next_cursor: read.nextCursor,
+      evicted: read.evicted,
+    };
   }
 
   async stop(id: string): Promise<{ success: boolean; error?: string }> {
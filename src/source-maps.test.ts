@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { decodeMappings, isAllowedMapUrl, SourceMap, SourceMapResolver } from "./source-maps.js";
+
+describe("decodeMappings", () => {
+  it("decodes segments with relative fields", () => {
+    expect(decodeMappings("AAAA,KAAK")).toEqual([[
+      { generatedColumn: 0, source: 0, line: 0, column: 0 },
+      { generatedColumn: 5, source: 0, line: 0, column: 5 },
+    ]]);
+  });
+
+  it("handles multi-digit VLQ values and names", () => {
+    expect(decodeMappings("AAgBCC")).toEqual([[
+      { generatedColumn: 0, source: 0, line: 16, column: 1, name: 1 },
+    ]]);
+  });
+
+  it("resets the generated column on each line", () => {
+    const lines = decodeMappings("KAAA;;EACA");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toEqual([]);
+    expect(lines[2]).toEqual([{ generatedColumn: 2, source: 0, line: 1, column: 0 }]);
+  });
+
+  it("rejects invalid characters", () => {
+    expect(() => decodeMappings("A!")).toThrow(/Invalid character/);
+  });
+});
+
+describe("SourceMap", () => {
+  const map = new SourceMap(
+    { version: 3, sources: ["../src/app.ts"], names: ["handler"], mappings: "AAAA,KAAKA;AACA" },
+    "http://localhost:3000/dist/app.js.map",
+  );
+
+  it("resolves sources relative to the map URL", () => {
+    expect(map.sources).toEqual(["http://localhost:3000/src/app.ts"]);
+  });
+
+  it("maps generated positions to the closest preceding segment", () => {
+    expect(map.originalPositionFor(0, 3)).toEqual({ source: "http://localhost:3000/src/app.ts", line: 0, column: 0, name: null });
+    expect(map.originalPositionFor(0, 40)).toMatchObject({ line: 0, column: 5, name: "handler" });
+    expect(map.originalPositionFor(1, 0)).toMatchObject({ line: 1, column: 5 });
+  });
+
+  it("returns null for unmapped positions", () => {
+    expect(map.originalPositionFor(7, 0)).toBeNull();
+  });
+
+  it("lists mapped spans of generated code", () => {
+    const source = "http://localhost:3000/src/app.ts";
+    expect(Array.from(map.spans())).toEqual([
+      { line: 0, startColumn: 0, endColumn: 5, source, originalLine: 0, originalColumn: 0 },
+      { line: 0, startColumn: 5, endColumn: undefined, source, originalLine: 0, originalColumn: 5 },
+      { line: 1, startColumn: 0, endColumn: undefined, source, originalLine: 1, originalColumn: 5 },
+    ]);
+  });
+
+  it("maps original lines to generated code, sliding past unmapped lines", () => {
+    const source = "http://localhost:3000/src/app.ts";
+    expect(map.generatedPositionFor(source, 0)).toEqual({ line: 0, column: 0 });
+    expect(map.generatedPositionFor(source, 0, 3)).toEqual({ line: 0, column: 5 });
+    expect(map.generatedPositionFor(source, 1)).toEqual({ line: 1, column: 0 });
+    expect(map.generatedPositionFor(source, 2)).toBeNull();
+    expect(map.generatedPositionFor("http://localhost:3000/src/other.ts", 0)).toBeNull();
+
+    const sparse = new SourceMap({ version: 3, sources: ["a.ts"], mappings: "AAEA" }, "http://x/a.js.map");
+    expect(sparse.generatedPositionFor("http://x/a.ts", 0)).toEqual({ line: 0, column: 0 });
+  });
+});
+
+describe("SourceMapResolver.findSource", () => {
+  it("finds scripts whose map contains a source, by URL or path suffix", async () => {
+    const raw = { version: 3, sources: ["webpack://app/src/app.ts"], mappings: "AAAA" };
+    const resolver = new SourceMapResolver();
+    resolver.registerScript(
+      "http://localhost:3000/app.js",
+      `data:application/json;base64,${Buffer.from(JSON.stringify(raw)).toString("base64")}`,
+    );
+
+    const [found] = await resolver.findSource("src/app.ts");
+    expect(found).toMatchObject({ scriptUrl: "http://localhost:3000/app.js", source: "webpack://app/src/app.ts" });
+    expect(await resolver.findSource("webpack://app/src/app.ts")).toHaveLength(1);
+    expect(await resolver.findSource("app/other.ts")).toEqual([]);
+  });
+});
+
+describe("SourceMapResolver.registerScript", () => {
+  const inlineMap = (source: string) =>
+    `data:application/json;base64,${Buffer.from(JSON.stringify({ version: 3, sources: [source], mappings: "AAAA" })).toString("base64")}`;
+
+  it("reloads the map when a script URL is parsed again after a rebuild", async () => {
+    const resolver = new SourceMapResolver();
+    resolver.registerScript("http://localhost:3000/main.js", inlineMap("src/old.ts"), "hash-1");
+    const first = await resolver.getMap("http://localhost:3000/main.js");
+    expect(first?.sources).toEqual(["src/old.ts"]);
+
+    // The same script parsed again (another frame, a reload) keeps its map
+    resolver.registerScript("http://localhost:3000/main.js", inlineMap("src/old.ts"), "hash-1");
+    expect(await resolver.getMap("http://localhost:3000/main.js")).toBe(first);
+
+    resolver.registerScript("http://localhost:3000/main.js", inlineMap("src/new.ts"), "hash-2");
+    expect((await resolver.getMap("http://localhost:3000/main.js"))?.sources).toEqual(["src/new.ts"]);
+    expect(await resolver.findSource("src/old.ts")).toEqual([]);
+  });
+
+  it("forgets the map when the script is parsed again without one", async () => {
+    const resolver = new SourceMapResolver();
+    resolver.registerScript("http://localhost:3000/main.js", inlineMap("src/app.ts"));
+    resolver.registerScript("http://localhost:3000/main.js", undefined);
+    expect(await resolver.getMap("http://localhost:3000/main.js")).toBeNull();
+  });
+});
+
+describe("isAllowedMapUrl", () => {
+  it("allows http(s) and inline maps for any script", () => {
+    expect(isAllowedMapUrl("http://localhost:3000/app.js.map", "http://localhost:3000/app.js")).toBe(true);
+    expect(isAllowedMapUrl("https://cdn.example.com/app.js.map", "http://localhost:3000/app.js")).toBe(true);
+    expect(isAllowedMapUrl("data:application/json;base64,e30=", "http://localhost:3000/app.js")).toBe(true);
+  });
+
+  it("only allows file: maps for scripts loaded from disk", () => {
+    expect(isAllowedMapUrl("file:///etc/passwd", "http://evil.example/app.js")).toBe(false);
+    expect(isAllowedMapUrl("FILE:///etc/passwd", "http://evil.example/app.js")).toBe(false);
+    expect(isAllowedMapUrl("file:///proj/dist/app.js.map", "file:///proj/dist/app.js")).toBe(true);
+  });
+
+  it("rejects other schemes", () => {
+    expect(isAllowedMapUrl("ftp://example.com/app.js.map", "http://localhost/app.js")).toBe(false);
+    expect(isAllowedMapUrl("chrome-extension://abc/app.js.map", "http://localhost/app.js")).toBe(false);
+  });
+});
@@ -0,0 +1,354 @@
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import type { ConsoleEntry, StackFrame } from "./cdp-client.js";
+
+// --- Types ---
+
+/** One decoded mapping segment; all positions are 0-based. */
+export interface MappingSegment {
+  generatedColumn: number;
+  source?: number;
+  line?: number;
+  column?: number;
+  name?: number;
+}
+
+export interface OriginalPosition {
+  source: string;
+  line: number;
+  column: number;
+  name: string | null;
+}
+
+interface RawSourceMap {
+  version: number;
+  sources: Array<string | null>;
+  sourceRoot?: string;
+  names?: string[];
+  mappings: string;
+  sections?: unknown[];
+}
+
+// --- Config ---
+
+const FETCH_TIMEOUT_MS = 5000;
+
+/** Distinct scripts whose maps are kept — HMR keeps minting new script URLs. */
+const MAX_CACHED_MAPS = 300;
+
+/** How many lines past a blank or comment line to look for code when mapping a position back. */
+const MAX_BREAKPOINT_SLIDE = 20;
+
+// --- VLQ Decoding ---
+
+const BASE64_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES = new Map([...BASE64_CHARS].map((c, i) => [c, i]));
+
+/** Decode a source map `mappings` string into per-generated-line segments. */
+export function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [[]];
+  let generatedColumn = 0;
+  let source = 0;
+  let line = 0;
+  let column = 0;
+  let name = 0;
+
+  let fields: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  const flushSegment = () => {
+    if (fields.length === 0) return;
+    generatedColumn += fields[0];
+    const segment: MappingSegment = { generatedColumn };
+    if (fields.length >= 4) {
+      source += fields[1];
+      line += fields[2];
+      column += fields[3];
+      segment.source = source;
+      segment.line = line;
+      segment.column = column;
+      if (fields.length >= 5) {
+        name += fields[4];
+        segment.name = name;
+      }
+    }
+    lines[lines.length - 1].push(segment);
+    fields = [];
+  };
+
+  for (const ch of mappings) {
+    if (ch === ",") {
+      flushSegment();
+      continue;
+    }
+    if (ch === ";") {
+      flushSegment();
+      lines.push([]);
+      generatedColumn = 0;
+      continue;
+    }
+
+    const digit = BASE64_VALUES.get(ch);
+    if (digit === undefined) {
+      throw new Error(`Invalid character "${ch}" in source map mappings`);
+    }
+    value += (digit & 31) * 2 ** shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    fields.push(value % 2 === 1 ? -Math.floor(value / 2) : value / 2);
+    value = 0;
+    shift = 0;
+  }
+  flushSegment();
+
+  for (const segments of lines) {
+    segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+  }
+  return lines;
+}
+
+// --- Source Map ---
+
+export class SourceMap {
+  readonly sources: string[];
+  private names: string[];
+  private lines: MappingSegment[][];
+
+  constructor(raw: RawSourceMap, mapUrl: string) {
+    if (raw.sections) {
+      throw new Error("Indexed source maps (sections) are not supported");
+    }
+    const root = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, "/") : "";
+    this.sources = raw.sources.map((s) => resolveUrl(`${root}${s ?? ""}`, mapUrl));
+    this.names = raw.names ?? [];
+    this.lines = decodeMappings(raw.mappings);
+  }
+
+  /** Map a 0-based generated position to its original position, if mapped. */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = this.lines[line];
+    if (!segments || segments.length === 0) return null;
+
+    // Last segment starting at or before the column
+    let lo = 0;
+    let hi = segments.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (segments[mid].generatedColumn <= column) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    if (found === -1) return null;
+
+    const segment = segments[found];
+    if (segment.source === undefined || segment.line === undefined || segment.column === undefined) {
+      return null;
+    }
+    return {
+      source: this.sources[segment.source],
+      line: segment.line,
+      column: segment.column,
+      name: segment.name !== undefined ? this.names[segment.name] ?? null : null,
+    };
+  }
+
+  /**
+   * Map a 0-based original position to generated code: the first segment at or
+   * after `column` on that line. Lines without code (blank lines, comments) slide
+   * to the next mapped line, the way DevTools places breakpoints.
+   */
+  generatedPositionFor(source: string, line: number, column = 0): { line: number; column: number } | null {
+    const index = this.sources.indexOf(source);
+    if (index === -1) return null;
+
+    let best: { line: number; column: number; originalLine: number; originalColumn: number } | null = null;
+    const better = (originalLine: number, originalColumn: number) => {
+      if (!best) return true;
+      if (originalLine !== best.originalLine) return originalLine < best.originalLine;
+      // On the requested line, prefer segments at or after the column
+      const atOrAfter = originalLine > line || originalColumn >= column;
+      const bestAtOrAfter = best.originalLine > line || best.originalColumn >= column;
+      if (atOrAfter !== bestAtOrAfter) return atOrAfter;
+      return originalColumn < best.originalColumn;
+    };
+
+    for (let generatedLine = 0; generatedLine < this.lines.length; generatedLine++) {
+      for (const segment of this.lines[generatedLine] ?? []) {
+        if (segment.source !== index || segment.line === undefined || segment.column === undefined) continue;
+        if (segment.line < line || segment.line > line + MAX_BREAKPOINT_SLIDE) continue;
+        if (better(segment.line, segment.column)) {
+          best = { line: generatedLine, column: segment.generatedColumn, originalLine: segment.line, originalColumn: segment.column };
+        }
+      }
+    }
+    return best && { line: best.line, column: best.column };
+  }
+
+  /**
+   * Every mapped span of generated code, 0-based: a generated line and column
+   * range (no endColumn = to the end of the line) and where it came from.
+   */
+  *spans(): Generator<{ line: number; startColumn: number; endColumn?: number; source: string; originalLine: number; originalColumn: number }> {
+    for (let line = 0; line < this.lines.length; line++) {
+      const segments = this.lines[line] ?? [];
+      for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        if (segment.source === undefined || segment.line === undefined || segment.column === undefined) continue;
+        yield {
+          line,
+          startColumn: segment.generatedColumn,
+          endColumn: segments[i + 1]?.generatedColumn,
+          source: this.sources[segment.source],
+          originalLine: segment.line,
+          originalColumn: segment.column,
+        };
+      }
+    }
+  }
+}
+
+function resolveUrl(url: string, base: string): string {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Pages choose their own sourceMappingURL, so a hostile one could point at
+ * local files. Only scripts loaded from disk may have maps on disk; everything
+ * else is limited to http(s) and inline data: maps.
+ */
+export function isAllowedMapUrl(mapUrl: string, scriptUrl: string): boolean {
+  const protocol = mapUrl.slice(0, mapUrl.indexOf(":") + 1).toLowerCase();
+  if (protocol === "file:") return scriptUrl.toLowerCase().startsWith("file:");
+  return protocol === "http:" || protocol === "https:" || protocol === "data:";
+}
+
+async function loadSourceMap(mapUrl: string, scriptUrl: string): Promise<SourceMap> {
+  if (!isAllowedMapUrl(mapUrl, scriptUrl)) {
+    throw new Error("source map URL not allowed for this script");
+  }
+  let text: string;
+  if (mapUrl.startsWith("file:")) {
+    text = await readFile(fileURLToPath(mapUrl), "utf-8");
+  } else {
+    // fetch() handles http(s) and inline data: URLs
+    const res = await fetch(mapUrl, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status}`);
+    }
+    text = await res.text();
+  }
+  // Some servers prefix maps with an XSSI guard line
+  const json = text.startsWith(")]}") ? text.slice(text.indexOf("\n") + 1) : text;
+  return new SourceMap(JSON.parse(json) as RawSourceMap, mapUrl);
+}
+
+// --- Resolver ---
+
+/**
+ * Tracks source maps for scripts announced via Debugger.scriptParsed and
+ * rewrites bundled locations (chunk-abc123.js:1:48213) to original sources.
+ * Maps are fetched in the background as scripts are parsed, so they are
+ * usually ready by the time entries are read.
+ */
+export class SourceMapResolver {
+  private maps = new Map<string, { version: string; map: Promise<SourceMap | null> }>();
+
+  /**
+   * Bundlers often keep a script's URL across rebuilds (`main.js`), so the
+   * map is reloaded whenever the same URL is parsed with a different map URL
+   * or content hash, and dropped when the new script has no map.
+   */
+  registerScript(scriptUrl: string, sourceMapURL: string | undefined, hash?: string): void {
+    if (!scriptUrl) return;
+    if (!sourceMapURL) {
+      this.maps.delete(scriptUrl);
+      return;
+    }
+    const version = `${sourceMapURL}\u0000${hash ?? ""}`;
+    if (this.maps.get(scriptUrl)?.version === version) return;
+
+    const mapUrl = resolveUrl(sourceMapURL, scriptUrl);
+    // Re-inserting moves the script to the newest end for eviction
+    this.maps.delete(scriptUrl);
+    this.maps.set(scriptUrl, {
+      version,
+      map: loadSourceMap(mapUrl, scriptUrl).catch((err) => {
+        const label = mapUrl.startsWith("data:") ? "inline map" : mapUrl;
+        console.error(`[relay-inspect] Failed to load source map for ${scriptUrl} (${label}): ${err instanceof Error ? err.message : err}`);
+        return null;
+      }),
+    });
+
+    // Map iteration order is insertion order — drop the oldest
+    if (this.maps.size > MAX_CACHED_MAPS) {
+      const oldest = this.maps.keys().next().value;
+      if (oldest !== undefined) this.maps.delete(oldest);
+    }
+  }
+
+  /** The loaded map for a script URL, or null if none is known or it failed to load. */
+  async getMap(scriptUrl: string): Promise<SourceMap | null> {
+    return (await this.maps.get(scriptUrl)?.map) ?? null;
+  }
+
+  /**
+   * Loaded maps that include an original source, given as a full URL or a
+   * path suffix (e.g. `src/app.ts`). Returns the generated script for each.
+   */
+  async findSource(source: string): Promise<Array<{ scriptUrl: string; map: SourceMap; source: string }>> {
+    const suffix = "/" + source.replace(/^\.?\//, "");
+    const found: Array<{ scriptUrl: string; map: SourceMap; source: string }> = [];
+    for (const [scriptUrl, entry] of this.maps) {
+      const map = await entry.map;
+      const match = map?.sources.find((s) => s === source || s.endsWith(suffix));
+      if (map && match) found.push({ scriptUrl, map, source: match });
+    }
+    return found;
+  }
+
+  /** Resolve a 1-based location; returns null when the script has no usable mapping there. */
+  async resolveLocation(url: string, line: number, column: number): Promise<{ url: string; line: number; column: number } | null> {
+    const map = await this.getMap(url);
+    const original = map?.originalPositionFor(line - 1, column - 1);
+    if (!original) return null;
+    return { url: original.source, line: original.line + 1, column: original.column + 1 };
+  }
+
+  /** Rewrite entry locations and stack frames to original sources where maps allow. */
+  async resolveConsoleEntries<T extends ConsoleEntry>(entries: T[]): Promise<T[]> {
+    return Promise.all(entries.map((entry) => this.resolveConsoleEntry(entry)));
+  }
+
+  private async resolveConsoleEntry<T extends ConsoleEntry>(entry: T): Promise<T> {
+    if (!entry.url || entry.line === undefined) return entry;
+
+    const resolved: T = { ...entry };
+    const location = await this.resolveLocation(entry.url, entry.line, entry.column ?? 1);
+    if (location) {
+      resolved.url = location.url;
+      resolved.line = location.line;
+      resolved.column = location.column;
+    }
+    if (entry.stack) {
+      resolved.stack = await Promise.all(entry.stack.map((frame) => this.resolveFrame(frame)));
+    }
+    return resolved;
+  }
+
+  private async resolveFrame(frame: StackFrame): Promise<StackFrame> {
+    if (!frame.url) return frame;
+    const location = await this.resolveLocation(frame.url, frame.line, frame.column);
+    return location ? { ...frame, ...location } : frame;
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { markOverridden, matchesProperty, ruleLocation, type StyleDeclaration } from "./styles.js";
+
+describe("matchesProperty", () => {
+  it("matches everything when no patterns are given", () => {
+    expect(matchesProperty("color", [])).toBe(true);
+  });
+
+  it("matches exact names and * prefixes", () => {
+    expect(matchesProperty("margin-top", ["margin*"])).toBe(true);
+    expect(matchesProperty("display", ["display"])).toBe(true);
+    expect(matchesProperty("padding-top", ["margin*", "display"])).toBe(false);
+  });
+});
+
+describe("markOverridden", () => {
+  const rule = (...declarations: StyleDeclaration[]) => ({ declarations });
+
+  it("lets the last declaration win", () => {
+    const rules = [
+      rule({ name: "color", value: "red" }, { name: "margin", value: "0" }),
+      rule({ name: "color", value: "blue" }),
+    ];
+    markOverridden(rules);
+    expect(rules[0].declarations[0].overridden).toBe(true);
+    expect(rules[0].declarations[1].overridden).toBeUndefined();
+    expect(rules[1].declarations[0].overridden).toBeUndefined();
+  });
+
+  it("lets !important beat later normal declarations", () => {
+    const rules = [
+      rule({ name: "color", value: "red", important: true }),
+      rule({ name: "color", value: "blue" }),
+      rule({ name: "color", value: "green" }),
+    ];
+    markOverridden(rules);
+    expect(rules.map((r) => r.declarations[0].overridden)).toEqual([undefined, true, true]);
+  });
+});
+
+describe("ruleLocation", () => {
+  it("converts external sheet ranges to 1-based positions", () => {
+    const header = { sourceURL: "http://localhost:5173/src/app.css", isInline: false, startLine: 0, startColumn: 0 };
+    expect(ruleLocation(header, { startLine: 41, startColumn: 2 })).toEqual({
+      url: "http://localhost:5173/src/app.css",
+      line: 42,
+      column: 3,
+    });
+  });
+
+  it("offsets inline <style> ranges by where the sheet starts in the document", () => {
+    const header = { sourceURL: "http://localhost:3000/", isInline: true, startLine: 10, startColumn: 11 };
+    expect(ruleLocation(header, { startLine: 0, startColumn: 4 })).toEqual({ url: "http://localhost:3000/", line: 11, column: 16 });
+    expect(ruleLocation(header, { startLine: 3, startColumn: 4 })).toEqual({ url: "http://localhost:3000/", line: 14, column: 5 });
+  });
+
+  it("returns undefined without a source", () => {
+    expect(ruleLocation(undefined, { startLine: 0, startColumn: 0 })).toBeUndefined();
+    expect(ruleLocation({ sourceURL: "", isInline: false, startLine: 0, startColumn: 0 }, { startLine: 0, startColumn: 0 })).toBeUndefined();
+  });
+});
@@ -0,0 +1,273 @@
+import type CDP from "chrome-remote-interface";
+import { cdpClient, type CDPClient } from "./cdp-client.js";
+
+// --- Types ---
+
+interface SourceRange {
+  startLine: number;
+  startColumn: number;
+}
+
+/** The parts of CDP's CSS.CSSStyleSheetHeader we keep. */
+export interface SheetHeader {
+  sourceURL: string;
+  isInline: boolean;
+  startLine: number;
+  startColumn: number;
+}
+
+/** The parts of CDP's CSS.RuleMatch we read. */
+export interface RuleMatchLike {
+  rule: {
+    styleSheetId?: string;
+    selectorList: { selectors: Array<{ text: string; range?: SourceRange }>; text: string };
+    origin: string;
+    style: {
+      cssProperties: Array<{ name: string; value: string; important?: boolean; implicit?: boolean; disabled?: boolean; parsedOk?: boolean }>;
+      range?: SourceRange;
+    };
+    media?: Array<{ text: string }>;
+  };
+  matchingSelectors: number[];
+}
+
+export interface SourceLocation {
+  url: string;
+  /** 1-based. */
+  line: number;
+  column: number;
+}
+
+export interface StyleDeclaration {
+  name: string;
+  value: string;
+  important?: boolean;
+  /** A later or more specific declaration wins for this property. */
+  overridden?: boolean;
+}
+
+export interface MatchedRule {
+  /** The selector(s) of the rule that matched this element. */
+  selector: string;
+  origin: string;
+  source?: SourceLocation;
+  media?: string[];
+  declarations: StyleDeclaration[];
+}
+
+export interface Edges {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface BoxModel {
+  /** Border-box rectangle in page coordinates. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  content: { width: number; height: number };
+  padding: Edges;
+  border: Edges;
+  margin: Edges;
+}
+
+export interface StyleReport {
+  box_model: BoxModel | null;
+  computed: Record<string, string>;
+  matched_rules: MatchedRule[];
+}
+
+export interface StyleOptions {
+  /** Computed properties to return; a trailing `*` matches a prefix. Empty means all. */
+  properties: string[];
+  includeUserAgent: boolean;
+}
+
+// --- Cascade ---
+
+/** Property names, with `*` prefix patterns (e.g. `margin*`). */
+export function matchesProperty(name: string, patterns: string[]): boolean {
+  return patterns.length === 0 || patterns.some((p) => (p.endsWith("*") ? name.startsWith(p.slice(0, -1)) : name === p));
+}
+
+/**
+ * Flag declarations that lose the cascade. `rules` must be in CDP's order —
+ * least to most specific — with the inline style last. The last !important
+ * declaration of a property wins, otherwise the last declaration.
+ */
+export function markOverridden(rules: Array<{ declarations: StyleDeclaration[] }>): void {
+  const winners = new Map<string, StyleDeclaration>();
+  for (const rule of rules) {
+    for (const decl of rule.declarations) {
+      const current = winners.get(decl.name);
+      if (!current || decl.important || !current.important) {
+        winners.set(decl.name, decl);
+      }
+    }
+  }
+  for (const rule of rules) {
+    for (const decl of rule.declarations) {
+      if (winners.get(decl.name) !== decl) decl.overridden = true;
+    }
+  }
+}
+
+/** Rule location, 1-based. Inline <style> ranges are relative to the sheet, which starts mid-document. */
+export function ruleLocation(header: SheetHeader | undefined, range: SourceRange | undefined): SourceLocation | undefined {
+  if (!header || !range || !header.sourceURL) return undefined;
+  if (!header.isInline) {
+    return { url: header.sourceURL, line: range.startLine + 1, column: range.startColumn + 1 };
+  }
+  return {
+    url: header.sourceURL,
+    line: header.startLine + range.startLine + 1,
+    column: (range.startLine === 0 ? header.startColumn + range.startColumn : range.startColumn) + 1,
+  };
+}
+
+function toEdges(outer: number[], inner: number[]): Edges {
+  // Quads are clockwise from top-left: x1,y1 (TL), x2,y2 (TR), x3,y3 (BR), x4,y4 (BL)
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return {
+    top: round(inner[1] - outer[1]),
+    right: round(outer[2] - inner[2]),
+    bottom: round(outer[5] - inner[5]),
+    left: round(inner[0] - outer[0]),
+  };
+}
+
+// --- Style Inspector ---
+
+/**
+ * Reads computed styles, box models and matched rules. Stylesheet headers are
+ * collected from CSS.styleSheetAdded so rules can point at their source file;
+ * the CSS domain is only enabled on first use.
+ */
+export class StyleInspector {
+  private sheets = new Map<string, SheetHeader>();
+  private enabledFor: CDP.Client | null = null;
+
+  constructor(private cdp: CDPClient) {
+    cdp.onSession((client) => this.attach(client));
+  }
+
+  private attach(client: CDP.Client): void {
+    this.sheets.clear();
+    this.enabledFor = null;
+
+    client.CSS.styleSheetAdded(({ header }) => {
+      this.sheets.set(header.styleSheetId, {
+        sourceURL: header.sourceURL,
+        isInline: header.isInline,
+        startLine: header.startLine,
+        startColumn: header.startColumn,
+      });
+      // Preprocessed CSS (Sass, PostCSS) maps back the same way scripts do
+      if (!header.isInline && header.sourceMapURL) {
+        this.cdp.sourceMaps.registerScript(header.sourceURL, header.sourceMapURL);
+      }
+    });
+    client.CSS.styleSheetRemoved(({ styleSheetId }) => {
+      this.sheets.delete(styleSheetId);
+    });
+  }
+
+  /** Stylesheet header by id, for sheets seen since the CSS domain was enabled. */
+  getSheet(styleSheetId: string): SheetHeader | undefined {
+    return this.sheets.get(styleSheetId);
+  }
+
+  async ensureEnabled(client: CDP.Client): Promise<void> {
+    if (this.enabledFor === client) return;
+    // Existing sheets are announced via styleSheetAdded before enable returns
+    await client.CSS.enable();
+    this.enabledFor = client;
+  }
+
+  async getStyles(client: CDP.Client, target: { ref?: number; selector?: string }, options: StyleOptions): Promise<StyleReport> {
+    await this.ensureEnabled(client);
+    const nodeId = await this.nodeIdFor(client, target);
+
+    const [computed, matched, box] = await Promise.all([
+      client.CSS.getComputedStyleForNode({ nodeId }),
+      client.CSS.getMatchedStylesForNode({ nodeId }),
+      client.DOM.getBoxModel({ nodeId }).catch(() => null),
+    ]);
+
+    const computedStyles: Record<string, string> = {};
+    for (const { name, value } of computed.computedStyle) {
+      if (matchesProperty(name, options.properties)) computedStyles[name] = value;
+    }
+
+    const rules: MatchedRule[] = [];
+    for (const match of (matched.matchedCSSRules ?? []) as RuleMatchLike[]) {
+      if (match.rule.origin === "user-agent" && !options.includeUserAgent) continue;
+      const selectors = match.matchingSelectors.map((i) => match.rule.selectorList.selectors[i]);
+      const header = match.rule.styleSheetId ? this.sheets.get(match.rule.styleSheetId) : undefined;
+      const location = ruleLocation(header, selectors[0]?.range ?? match.rule.style.range);
+      const source = location && !header?.isInline
+        ? await this.cdp.sourceMaps.resolveLocation(location.url, location.line, location.column) ?? location
+        : location;
+
+      rules.push({
+        selector: selectors.map((s) => s.text).join(", ") || match.rule.selectorList.text,
+        origin: match.rule.origin,
+        ...(source && { source }),
+        ...(match.rule.media?.length && { media: match.rule.media.map((m) => m.text) }),
+        declarations: this.declarations(match.rule.style.cssProperties),
+      });
+    }
+
+    const inline = matched.inlineStyle ? this.declarations(matched.inlineStyle.cssProperties) : [];
+    if (inline.length > 0) {
+      rules.push({ selector: "element.style", origin: "inline", declarations: inline });
+    }
+    markOverridden(rules);
+
+    let boxModel: BoxModel | null = null;
+    if (box) {
+      const { content, padding, border, margin, width, height } = box.model;
+      boxModel = {
+        x: border[0],
+        y: border[1],
+        width,
+        height,
+        content: { width: content[2] - content[0], height: content[5] - content[1] },
+        padding: toEdges(padding, content),
+        border: toEdges(border, padding),
+        margin: toEdges(margin, border),
+      };
+    }
+
+    // Most specific first, as DevTools lists them
+    return { box_model: boxModel, computed: computedStyles, matched_rules: rules.reverse() };
+  }
+
+  /** Explicit declarations only — skip longhands CDP expands from shorthands. */
+  private declarations(props: RuleMatchLike["rule"]["style"]["cssProperties"]): StyleDeclaration[] {
+    return props
+      .filter((p) => !p.implicit && !p.disabled && p.parsedOk !== false && p.value !== "")
+      .map((p) => ({ name: p.name, value: p.value, ...(p.important && { important: true }) }));
+  }
+
+  private async nodeIdFor(client: CDP.Client, target: { ref?: number; selector?: string }): Promise<number> {
+    const doc = await client.DOM.getDocument({ depth: 0 });
+    if (target.ref !== undefined) {
+      try {
+        const { nodeIds } = await client.DOM.pushNodesByBackendIdsToFrontend({ backendNodeIds: [target.ref] });
+        if (nodeIds[0]) return nodeIds[0];
+      } catch { /* fall through */ }
+      throw new Error(`Node ref ${target.ref} no longer exists (the page changed or navigated). Take a new snapshot with get_elements.`);
+    }
+    const { nodeId } = await client.DOM.querySelector({ nodeId: doc.root.nodeId, selector: target.selector! });
+    if (!nodeId) {
+      throw new Error(`No element matched selector: "${target.selector}"`);
+    }
+    return nodeId;
+  }
+}
+
+export const styleInspector = new StyleInspector(cdpClient);
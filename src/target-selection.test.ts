@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { findFollowedTarget, pickTarget, type TargetInfo } from "./cdp-client.js";
+
+function page(id: string, url: string, title = ""): TargetInfo {
+  return { id, type: "page", url, title };
+}
+
+describe("pickTarget", () => {
+  const targets: TargetInfo[] = [
+    { id: "sw", type: "service_worker", url: "http://localhost:3000/sw.js", title: "" },
+    page("devtools", "devtools://devtools/bundled/inspector.html"),
+    page("docs", "https://example.com/docs", "Docs"),
+    page("app", "http://localhost:3000/", "My App"),
+    page("storybook", "http://localhost:6006/", "Storybook"),
+  ];
+
+  it("prefers the first localhost page by default", () => {
+    expect(pickTarget(targets)?.id).toBe("app");
+  });
+
+  it("falls back to the first web page, then any page", () => {
+    expect(pickTarget([page("a", "chrome://newtab/"), page("b", "https://example.com")])?.id).toBe("b");
+    expect(pickTarget([page("a", "chrome://newtab/")])?.id).toBe("a");
+    expect(pickTarget([])).toBeUndefined();
+  });
+
+  it("matches by id, url substring and title", () => {
+    expect(pickTarget(targets, { id: "docs" })?.id).toBe("docs");
+    expect(pickTarget(targets, { url: ":6006" })?.id).toBe("storybook");
+    expect(pickTarget(targets, { title: "my app" })?.id).toBe("app");
+  });
+
+  it("requires every given field to match", () => {
+    expect(pickTarget(targets, { url: "localhost", title: "storybook" })?.id).toBe("storybook");
+    expect(pickTarget(targets, { id: "app", title: "storybook" })).toBeUndefined();
+  });
+
+  it("never selects non-page targets", () => {
+    expect(pickTarget(targets, { id: "sw" })).toBeUndefined();
+  });
+});
+
+describe("findFollowedTarget", () => {
+  const targets: TargetInfo[] = [
+    page("a", "http://localhost:3000/dashboard"),
+    page("b", "http://localhost:6006/"),
+  ];
+
+  it("reattaches to the same target id when it still exists", () => {
+    expect(findFollowedTarget(targets, { id: "b", urlPattern: "http://localhost:3000" })?.id).toBe("b");
+  });
+
+  it("falls back to the URL pattern when the tab was replaced", () => {
+    expect(findFollowedTarget(targets, { id: "gone", urlPattern: "http://localhost:3000" })?.id).toBe("a");
+  });
+
+  it("returns nothing rather than an unrelated page", () => {
+    expect(findFollowedTarget(targets, { id: "gone", urlPattern: "http://localhost:8080" })).toBeUndefined();
+    expect(findFollowedTarget(targets, { id: "gone", urlPattern: null })).toBeUndefined();
+  });
+});
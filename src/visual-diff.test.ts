@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { PNG } from "pngjs";
+import { baselineFileName, changedRegions, comparePngs } from "./visual-diff.js";
+
+function solidPng(width: number, height: number, paint?: (x: number, y: number) => [number, number, number] | null): Buffer {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = paint?.(x, y) ?? [255, 255, 255];
+      const i = (y * width + x) * 4;
+      png.data[i] = r;
+      png.data[i + 1] = g;
+      png.data[i + 2] = b;
+      png.data[i + 3] = 255;
+    }
+  }
+  return PNG.sync.write(png);
+}
+
+describe("baselineFileName", () => {
+  const viewport = { width: 1280, height: 720 };
+
+  it("combines name and viewport", () => {
+    expect(baselineFileName({ name: "Checkout Form", viewport, devicePixelRatio: 1 })).toBe("checkout-form__1280x720.png");
+  });
+
+  it("adds the pixel ratio when it isn't 1", () => {
+    expect(baselineFileName({ name: "home", viewport, devicePixelRatio: 2 })).toBe("home__1280x720@2x.png");
+  });
+
+  it("distinguishes selectors that slug the same", () => {
+    const a = baselineFileName({ name: "home", viewport, devicePixelRatio: 1, selector: ".nav > a" });
+    const b = baselineFileName({ name: "home", viewport, devicePixelRatio: 1, selector: ".nav a" });
+    expect(a).toMatch(/^home__1280x720__nav-a-[0-9a-f]{8}\.png$/);
+    expect(a).not.toBe(b);
+  });
+});
+
+describe("comparePngs", () => {
+  it("reports identical images as a zero mismatch", () => {
+    const png = solidPng(40, 30);
+    const result = comparePngs(png, png, { threshold: 0.1 });
+    expect(result.mismatched_pixels).toBe(0);
+    expect(result.mismatch_percent).toBe(0);
+    expect(result.regions).toEqual([]);
+    expect(result.size_changed).toBeUndefined();
+  });
+
+  it("finds the changed area and its bounding box", () => {
+    const before = solidPng(64, 64);
+    const after = solidPng(64, 64, (x, y) => (x >= 20 && x < 30 && y >= 40 && y < 50 ? [0, 0, 0] : null));
+    const result = comparePngs(before, after, { threshold: 0.1 });
+
+    expect(result.mismatched_pixels).toBe(100);
+    expect(result.mismatch_percent).toBeCloseTo(2.441, 3);
+    expect(result.regions).toEqual([{ x: 16, y: 32, width: 16, height: 32 }]);
+    expect(PNG.sync.read(result.diff).width).toBe(64);
+  });
+
+  it("compares different sizes on the larger canvas", () => {
+    const result = comparePngs(solidPng(32, 32), solidPng(32, 48), { threshold: 0.1 });
+    expect(result.size_changed).toEqual({ baseline: { width: 32, height: 32 }, current: { width: 32, height: 48 } });
+    expect(result.height).toBe(48);
+    expect(result.mismatched_pixels).toBe(32 * 16);
+  });
+});
+
+describe("changedRegions", () => {
+  it("keeps separate clusters apart, largest first", () => {
+    const mask = (x: number, y: number) => (x < 4 && y < 4) || (x >= 60 && x < 100 && y >= 60 && y < 70);
+    expect(changedRegions(mask, 128, 128)).toEqual([
+      { x: 48, y: 48, width: 64, height: 32 },
+      { x: 0, y: 0, width: 16, height: 16 },
+    ]);
+  });
+});
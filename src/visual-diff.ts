@@ -0,0 +1,172 @@
+import { createHash } from "node:crypto";
+import { join, resolve } from "node:path";
+import pixelmatch from "pixelmatch";
+import { PNG } from "pngjs";
+import type { Rect } from "./screenshot.js";
+
+// --- Types ---
+
+export interface BaselineKey {
+  name: string;
+  /** CSS viewport size at capture time. */
+  viewport: { width: number; height: number };
+  devicePixelRatio: number;
+  selector?: string;
+}
+
+export interface CompareOptions {
+  /** Per-pixel color distance (0-1) below which pixels count as equal. */
+  threshold: number;
+}
+
+export interface CompareResult {
+  width: number;
+  height: number;
+  /** Set when the two images differ in size; the extra area counts as changed. */
+  size_changed?: { baseline: { width: number; height: number }; current: { width: number; height: number } };
+  mismatched_pixels: number;
+  mismatch_percent: number;
+  /** Bounding boxes of changed areas in image pixels, largest first. */
+  regions: Rect[];
+  /** PNG with changed pixels in red over a faded copy of the current image. */
+  diff: Buffer;
+}
+
+// --- Config ---
+
+export const baselineDir = resolve(process.env.BASELINE_DIR ?? join(".relay-inspect", "baselines"));
+/** Changed pixels are grouped on a grid of this many pixels before finding regions. */
+const REGION_CELL = 16;
+const MAX_REGIONS = 20;
+const DIFF_COLOR: [number, number, number] = [255, 0, 0];
+
+// --- Keys ---
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "x";
+}
+
+/**
+ * File name for a baseline. Selectors are slugged for readability plus a
+ * short hash, since different selectors can slug to the same text.
+ */
+export function baselineFileName(key: BaselineKey): string {
+  let file = `${slug(key.name)}__${key.viewport.width}x${key.viewport.height}`;
+  if (key.devicePixelRatio !== 1) {
+    file += `@${key.devicePixelRatio}x`;
+  }
+  if (key.selector !== undefined) {
+    const hash = createHash("sha1").update(key.selector).digest("hex").slice(0, 8);
+    file += `__${slug(key.selector).slice(0, 40)}-${hash}`;
+  }
+  return `${file}.png`;
+}
+
+export function baselinePath(key: BaselineKey): string {
+  return join(baselineDir, baselineFileName(key));
+}
+
+// --- Compare ---
+
+/** Copy `png` onto a transparent canvas of the given size. */
+function padTo(png: PNG, width: number, height: number): Buffer {
+  if (png.width === width && png.height === height) return png.data;
+  const out = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < png.height; y++) {
+    png.data.copy(out, y * width * 4, y * png.width * 4, (y + 1) * png.width * 4);
+  }
+  return out;
+}
+
+/**
+ * Group changed pixels into bounding boxes: mark grid cells containing a
+ * change, then merge touching cells (8-connected) into regions.
+ */
+export function changedRegions(mask: (x: number, y: number) => boolean, width: number, height: number): Rect[] {
+  const cols = Math.ceil(width / REGION_CELL);
+  const rows = Math.ceil(height / REGION_CELL);
+  const marked = new Uint8Array(cols * rows);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask(x, y)) marked[Math.floor(y / REGION_CELL) * cols + Math.floor(x / REGION_CELL)] = 1;
+    }
+  }
+
+  const regions: Rect[] = [];
+  const seen = new Uint8Array(cols * rows);
+  for (let start = 0; start < marked.length; start++) {
+    if (!marked[start] || seen[start]) continue;
+
+    let minCol = cols, minRow = rows, maxCol = 0, maxRow = 0;
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const col = cell % cols;
+      const row = Math.floor(cell / cols);
+      minCol = Math.min(minCol, col); maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row); maxRow = Math.max(maxRow, row);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = col + dx;
+          const r = row + dy;
+          if (c < 0 || r < 0 || c >= cols || r >= rows) continue;
+          const next = r * cols + c;
+          if (marked[next] && !seen[next]) {
+            seen[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    const x = minCol * REGION_CELL;
+    const y = minRow * REGION_CELL;
+    regions.push({
+      x,
+      y,
+      width: Math.min((maxCol + 1) * REGION_CELL, width) - x,
+      height: Math.min((maxRow + 1) * REGION_CELL, height) - y,
+    });
+  }
+
+  return regions.sort((a, b) => b.width * b.height - a.width * a.height).slice(0, MAX_REGIONS);
+}
+
+/** Pixel-diff two PNGs. Images of different sizes are compared on the larger canvas. */
+export function comparePngs(baseline: Buffer, current: Buffer, options: CompareOptions): CompareResult {
+  const a = PNG.sync.read(baseline);
+  const b = PNG.sync.read(current);
+  const width = Math.max(a.width, b.width);
+  const height = Math.max(a.height, b.height);
+
+  const diff = new PNG({ width, height });
+  const mismatched = pixelmatch(padTo(a, width, height), padTo(b, width, height), diff.data, width, height, {
+    threshold: options.threshold,
+    diffColor: DIFF_COLOR,
+  });
+
+  // Anti-aliasing is drawn yellow and the rest grayscale, so pure red marks a real change
+  const isChanged = (x: number, y: number): boolean => {
+    const i = (y * width + x) * 4;
+    return diff.data[i] === DIFF_COLOR[0] && diff.data[i + 1] === DIFF_COLOR[1] && diff.data[i + 2] === DIFF_COLOR[2];
+  };
+
+  const sizeChanged = a.width !== b.width || a.height !== b.height;
+  return {
+    width,
+    height,
+    ...(sizeChanged && {
+      size_changed: {
+        baseline: { width: a.width, height: a.height },
+        current: { width: b.width, height: b.height },
+      },
+    }),
+    mismatched_pixels: mismatched,
+    mismatch_percent: Number(((mismatched / (width * height)) * 100).toFixed(3)),
+    regions: mismatched > 0 ? changedRegions(isChanged, width, height) : [],
+    diff: PNG.sync.write(diff),
+  };
+}
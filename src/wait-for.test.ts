@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach } from "vitest";
+import type CDP from "chrome-remote-interface";
+import { CircularBuffer, type CDPClient, type ConsoleEntry, type NetworkEntry } from "./cdp-client.js";
+import { ServerManager } from "./server-manager.js";
+import { validateConditions, waitFor } from "./wait-for.js";
+
+function fakeCdp() {
+  return {
+    consoleLogs: new CircularBuffer<ConsoleEntry>(100),
+    networkRequests: new CircularBuffer<NetworkEntry>(100),
+  };
+}
+
+function log(message: string): ConsoleEntry {
+  return { timestamp: new Date().toISOString(), level: "log", message, target_id: null };
+}
+
+describe("validateConditions", () => {
+  it("requires at least one condition", () => {
+    expect(() => validateConditions({})).toThrow(/at least one condition/);
+  });
+
+  it("requires server_id and server_pattern together", () => {
+    expect(() => validateConditions({ server_id: "web" })).toThrow(/together/);
+    expect(() => validateConditions({ server_pattern: "ready" })).toThrow(/together/);
+  });
+
+  it("rejects invalid regular expressions", () => {
+    expect(() => validateConditions({ console_pattern: "(" })).toThrow();
+  });
+});
+
+describe("waitFor", () => {
+  const servers = new ServerManager();
+
+  afterEach(async () => {
+    for (const s of servers.list()) {
+      if (s.running) await servers.stop(s.id);
+    }
+  });
+
+  it("resolves when a matching console message arrives and returns the activity", async () => {
+    const cdp = fakeCdp();
+    cdp.consoleLogs.push(log("before the wait"));
+    setTimeout(() => {
+      cdp.consoleLogs.push(log("loading"));
+      cdp.consoleLogs.push(log("app ready in 120ms"));
+    }, 150);
+
+    const result = await waitFor(cdp as unknown as CDPClient, null, servers, { console_pattern: "ready in \\d+ms" }, 2000);
+
+    expect(result.satisfied).toBe(true);
+    expect(result.conditions[0]).toMatchObject({ met: true, detail: { message: "app ready in 120ms" } });
+    expect(result.console.map((e) => e.message)).toEqual(["loading", "app ready in 120ms"]);
+    expect(result.console_cursor).toBe(3);
+  });
+
+  it("times out without throwing when the condition never holds", async () => {
+    const cdp = fakeCdp();
+    const result = await waitFor(cdp as unknown as CDPClient, null, servers, { network_url: "/api/never" }, 200);
+
+    expect(result.satisfied).toBe(false);
+    expect(result.aborted).toBeUndefined();
+    expect(result.elapsed_ms).toBeGreaterThanOrEqual(200);
+  });
+
+  it("times out when a predicate's promise never settles", async () => {
+    const cdp = fakeCdp();
+    const client = { Runtime: { evaluate: () => new Promise(() => {}) } };
+
+    const result = await waitFor(cdp as unknown as CDPClient, client as unknown as CDP.Client, servers, { predicate: "new Promise(() => {})" }, 200);
+
+    expect(result.satisfied).toBe(false);
+    expect(result.elapsed_ms).toBeGreaterThanOrEqual(200);
+    expect(result.elapsed_ms).toBeLessThan(1000);
+  });
+
+  it("stops early when the watched server exits without a match", async () => {
+    servers.start({ id: "short", command: "sleep", args: ["0.2"] });
+    const cdp = fakeCdp();
+
+    const result = await waitFor(cdp as unknown as CDPClient, null, servers, { server_id: "short", server_pattern: "listening" }, 5000);
+
+    expect(result.satisfied).toBe(false);
+    expect(result.aborted).toMatch(/exited/);
+    expect(result.elapsed_ms).toBeLessThan(5000);
+  });
+});
@@ -0,0 +1,239 @@
+import type CDP from "chrome-remote-interface";
+import type { CDPClient, ConsoleEntry, NetworkEntry } from "./cdp-client.js";
+import { matchesUrlPattern } from "./network-mocks.js";
+import type { ServerManager } from "./server-manager.js";
+
+// --- Types ---
+
+/** Every condition given must hold; event conditions stay met once seen. */
+export interface WaitConditions {
+  /** CSS selector to watch. */
+  selector?: string;
+  /** Wait for the selector to appear (default) or disappear. */
+  selector_state?: "present" | "absent";
+  /** JS expression that must evaluate truthy. */
+  predicate?: string;
+  /** Regular expression a new console message must match. */
+  console_pattern?: string;
+  /** URL substring or `*` glob of a request that must finish. */
+  network_url?: string;
+  /** Managed server whose output to watch, with `server_pattern`. */
+  server_id?: string;
+  /** Regular expression a new stdout/stderr line must match. */
+  server_pattern?: string;
+}
+
+export interface ConditionStatus {
+  condition: string;
+  met: boolean;
+  /** What satisfied it (matched message, request, log line), or why it can't be met. */
+  detail?: unknown;
+}
+
+export interface WaitActivity {
+  console: Array<ConsoleEntry & { seq: number }>;
+  network: Array<NetworkEntry & { seq: number }>;
+  console_cursor: number;
+  network_cursor: number;
+}
+
+export interface WaitResult extends WaitActivity {
+  satisfied: boolean;
+  /** Set when a condition can never be met (e.g. the server exited), so waiting stopped early. */
+  aborted?: string;
+  elapsed_ms: number;
+  conditions: ConditionStatus[];
+}
+
+interface Check {
+  status: ConditionStatus;
+  /** Level conditions are re-evaluated every poll; event conditions latch. */
+  poll: () => Promise<void>;
+}
+
+// --- Config ---
+
+const POLL_INTERVAL_MS = 100;
+
+// --- Wait ---
+
+/** Throws for bad input (invalid regex, pattern without server) before any waiting. */
+export function validateConditions(c: WaitConditions): void {
+  if ((c.server_id === undefined) !== (c.server_pattern === undefined)) {
+    throw new Error("server_id and server_pattern must be given together");
+  }
+  const given = [c.selector, c.predicate, c.console_pattern, c.network_url, c.server_id].filter((v) => v !== undefined);
+  if (given.length === 0) {
+    throw new Error("Provide at least one condition: selector, predicate, console_pattern, network_url or server_id");
+  }
+  if (c.console_pattern !== undefined) new RegExp(c.console_pattern);
+  if (c.server_pattern !== undefined) new RegExp(c.server_pattern);
+}
+
+/**
+ * Poll until every condition holds or the timeout fires. Console and network
+ * activity is read from the buffers by cursor, so nothing is drained and the
+ * caller gets everything captured while waiting. `client` may be null when
+ * only server output is being watched.
+ */
+export async function waitFor(
+  cdp: CDPClient,
+  client: CDP.Client | null,
+  servers: ServerManager,
+  conditions: WaitConditions,
+  timeoutMs: number,
+): Promise<WaitResult> {
+  validateConditions(conditions);
+
+  const started = Date.now();
+  const deadline = started + timeoutMs;
+  const activity: WaitActivity = {
+    console: [],
+    network: [],
+    console_cursor: cdp.consoleLogs.cursor,
+    network_cursor: cdp.networkRequests.cursor,
+  };
+  let aborted: string | undefined;
+  const checks: Check[] = [];
+
+  const evaluate = async (expression: string) => {
+    if (!client) {
+      throw new Error("Not connected to Chrome");
+    }
+    // A predicate's promise may never settle — don't let it outlive the deadline
+    const remaining = Math.max(1, deadline - Date.now());
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), remaining);
+    });
+    try {
+      return await Promise.race([
+        client.Runtime.evaluate({ expression, returnByValue: true, awaitPromise: true, timeout: remaining }),
+        expired,
+      ]);
+    } catch {
+      // Execution context destroyed mid-navigation — try again next poll
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  if (conditions.selector !== undefined) {
+    const state = conditions.selector_state ?? "present";
+    const status: ConditionStatus = { condition: `selector "${conditions.selector}" ${state}`, met: false };
+    checks.push({
+      status,
+      poll: async () => {
+        const result = await evaluate(`!!document.querySelector(${JSON.stringify(conditions.selector)})`);
+        if (!result) return;
+        if (result.exceptionDetails) {
+          throw new Error(`Invalid selector "${conditions.selector}": ${result.exceptionDetails.exception?.description ?? result.exceptionDetails.text}`);
+        }
+        status.met = (result.result.value === true) === (state === "present");
+      },
+    });
+  }
+
+  if (conditions.predicate !== undefined) {
+    const status: ConditionStatus = { condition: `predicate ${conditions.predicate}`, met: false };
+    checks.push({
+      status,
+      poll: async () => {
+        const result = await evaluate(conditions.predicate!);
+        if (!result) return;
+        // A throwing predicate (e.g. reading a not-yet-defined global) is just not true yet
+        status.met = !result.exceptionDetails && !!result.result.value;
+        status.detail = result.exceptionDetails
+          ? { last_error: result.exceptionDetails.exception?.description ?? result.exceptionDetails.text }
+          : undefined;
+      },
+    });
+  }
+
+  if (conditions.console_pattern !== undefined) {
+    const regex = new RegExp(conditions.console_pattern);
+    const status: ConditionStatus = { condition: `console /${conditions.console_pattern}/`, met: false };
+    checks.push({
+      status,
+      poll: async () => {
+        const match = activity.console.find((e) => regex.test(e.message));
+        if (match) {
+          status.met = true;
+          status.detail = { level: match.level, message: match.message, timestamp: match.timestamp };
+        }
+      },
+    });
+  }
+
+  if (conditions.network_url !== undefined) {
+    const pattern = conditions.network_url;
+    const status: ConditionStatus = { condition: `network ${pattern} finished`, met: false };
+    checks.push({
+      status,
+      poll: async () => {
+        const match = activity.network.find((e) => matchesUrlPattern(e.url, pattern));
+        if (match) {
+          status.met = true;
+          status.detail = { id: match.id, url: match.url, status: match.status, state: match.state, error: match.error };
+        }
+      },
+    });
+  }
+
+  if (conditions.server_id !== undefined) {
+    const id = conditions.server_id;
+    const regex = new RegExp(conditions.server_pattern!);
+    const initial = servers.getLogs(id, false);
+    if ("error" in initial) {
+      throw new Error(initial.error);
+    }
+    let cursor = initial.next_cursor;
+    const status: ConditionStatus = { condition: `server "${id}" /${conditions.server_pattern}/`, met: false };
+    checks.push({
+      status,
+      poll: async () => {
+        if (status.met) return;
+        const logs = servers.getLogs(id, false, cursor);
+        if ("error" in logs) return;
+        cursor = logs.next_cursor;
+        const match = logs.entries.find((e) => regex.test(e.text));
+        if (match) {
+          status.met = true;
+          status.detail = { stream: match.stream, text: match.text, timestamp: match.timestamp };
+        } else if (!logs.running) {
+          aborted = `Server "${id}" exited (code ${logs.exitCode}) without printing a matching line`;
+        }
+      },
+    });
+  }
+
+  const collect = (): void => {
+    const consoleRead = cdp.consoleLogs.read(activity.console_cursor);
+    activity.console.push(...consoleRead.entries.map(({ seq, item }) => ({ seq, ...item })));
+    activity.console_cursor = consoleRead.nextCursor;
+
+    const networkRead = cdp.networkRequests.read(activity.network_cursor);
+    activity.network.push(...networkRead.entries.map(({ seq, item }) => ({ seq, ...item })));
+    activity.network_cursor = networkRead.nextCursor;
+  };
+
+  while (true) {
+    collect();
+    for (const check of checks) {
+      await check.poll();
+    }
+
+    const satisfied = checks.every((c) => c.status.met);
+    if (satisfied || aborted || Date.now() >= deadline) {
+      return {
+        satisfied,
+        ...(aborted && !satisfied && { aborted }),
+        elapsed_ms: Date.now() - started,
+        conditions: checks.map((c) => c.status),
+        ...activity,
+      };
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}